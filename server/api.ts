@@ -0,0 +1,153 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createAuth, type UserRecord } from "./auth";
+import type { ServerConfig } from "./config";
+import { HttpError, bearerToken, readJson, sendJson } from "./http";
+import { createLimiter } from "./limits";
+import {
+  parseChatRequest,
+  promptTokens,
+  proxyChat,
+  type ProxyUsage,
+} from "./proxy";
+
+// Failed sign-ins are slowed down per client address
+const SIGN_IN_ATTEMPTS_PER_MINUTE = 10;
+
+/**
+ * Connect-style handler for the routes under /api:
+ *   POST /login    { username, password } -> { token, user, expiresAt }
+ *   POST /logout
+ *   GET  /account  -> { user, usage, limits }
+ *   POST /chat     { provider, model, messages, stream } -> provider reply
+ */
+export const createApiHandler = (config: ServerConfig) => {
+  const auth = createAuth(config.usersFile, config.sessionTtlMs);
+  const limiter = createLimiter();
+
+  const requireUser = async (req: IncomingMessage) => {
+    const user = await auth.authenticate(bearerToken(req));
+    if (!user) {
+      throw new HttpError(401, "Sign in to use the AI features.", {
+        code: "auth",
+      });
+    }
+    return user;
+  };
+
+  const limitsOf = (user: UserRecord) => ({
+    ...config.limits,
+    ...user.limits,
+  });
+
+  const enforce = (check: ReturnType<typeof limiter.hit>) => {
+    if (!check.ok) {
+      throw new HttpError(429, check.message, {
+        code: check.kind,
+        headers: { "Retry-After": String(check.retryAfter) },
+      });
+    }
+  };
+
+  const login = async (req: IncomingMessage, res: ServerResponse) => {
+    enforce(
+      limiter.hit(
+        `login:${req.socket.remoteAddress}`,
+        SIGN_IN_ATTEMPTS_PER_MINUTE
+      )
+    );
+    const { username, password } = (await readJson(req)) as {
+      username?: unknown;
+      password?: unknown;
+    };
+    if (typeof username !== "string" || typeof password !== "string") {
+      throw new HttpError(400, "Username and password are required.");
+    }
+
+    const session = await auth.signIn(username, password);
+    if (!session) {
+      throw new HttpError(401, "Wrong username or password.", {
+        code: "auth",
+      });
+    }
+    sendJson(res, 200, session);
+  };
+
+  const account = async (req: IncomingMessage, res: ServerResponse) => {
+    const user = await requireUser(req);
+    sendJson(res, 200, {
+      user: user.name,
+      usage: limiter.usage(user.name),
+      limits: limitsOf(user),
+    });
+  };
+
+  const chat = async (req: IncomingMessage, res: ServerResponse) => {
+    const user = await requireUser(req);
+    // Malformed bodies are turned away before they count against the limits
+    const request = parseChatRequest(await readJson(req), config.allowedModels);
+    const limits = limitsOf(user);
+    enforce(limiter.checkQuota(user.name, limits));
+    enforce(limiter.hit(user.name, limits.requestsPerMinute));
+    limiter.record(user.name);
+
+    // Stop the upstream request when the browser goes away
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    const usage: ProxyUsage = { tokens: 0 };
+    try {
+      await proxyChat(config, request, res, controller.signal, usage);
+    } finally {
+      // Usage comes with the end of a reply, so a reply that started but
+      // was cancelled before it is charged its prompt
+      const unreported = usage.tokens === 0 && res.headersSent;
+      limiter.addTokens(
+        user.name,
+        unreported ? promptTokens(request) : usage.tokens
+      );
+    }
+  };
+
+  const routes: Record<
+    string,
+    (req: IncomingMessage, res: ServerResponse) => Promise<void>
+  > = {
+    "POST /login": login,
+    "POST /logout": async (req, res) => {
+      auth.signOut(bearerToken(req));
+      sendJson(res, 200, {});
+    },
+    "GET /account": account,
+    "POST /chat": chat,
+  };
+
+  return async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    next: (err?: unknown) => void
+  ) => {
+    // Mounted under /api, so the URL arrives without the prefix
+    const path = (req.url ?? "/").split("?")[0];
+    const route = routes[`${req.method} ${path}`];
+    if (!route) return next();
+
+    try {
+      await route(req, res);
+    } catch (err) {
+      if (res.headersSent) {
+        // A stream broke off midway, all that can be done is to end it
+        res.end();
+      } else if (err instanceof HttpError) {
+        sendJson(
+          res,
+          err.status,
+          { error: err.message, code: err.code },
+          err.headers
+        );
+      } else if (!res.destroyed) {
+        console.error("AI proxy error:", err);
+        sendJson(res, 500, { error: "Internal server error.", code: "server" });
+      }
+    }
+  };
+};
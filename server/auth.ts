@@ -0,0 +1,98 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import type { UserLimits } from "./config";
+
+/**
+ * An entry of the users file. Passwords are stored as scrypt hashes and API
+ * tokens as SHA-256 hashes, both printed by server/hash-password.js
+ */
+export type UserRecord = {
+  name: string;
+  passwordHash?: string;
+  tokenHashes?: string[];
+  // Overrides of the server-wide limits for this user
+  limits?: Partial<UserLimits>;
+};
+
+type Session = { user: string; expiresAt: number };
+
+const scryptKey = (password: string, salt: Buffer, length: number) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, length, (err, key) =>
+      err ? reject(err) : resolve(key)
+    )
+  );
+
+const sha256 = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+// Verified when the user doesn't exist, so the response time gives nothing away
+const DUMMY_HASH = `scrypt:${"0".repeat(32)}:${"0".repeat(128)}`;
+
+// Checks a password against a "scrypt:<salt hex>:<key hex>" hash
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, salt, key] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "hex");
+  const actual = await scryptKey(
+    password,
+    Buffer.from(salt, "hex"),
+    expected.length
+  );
+  return timingSafeEqual(actual, expected);
+};
+
+// Read on every call so users can be added without restarting the server
+export const loadUsers = async (file: string): Promise<UserRecord[]> => {
+  try {
+    const parsed = JSON.parse(await readFile(file, "utf8"));
+    return Array.isArray(parsed?.users) ? parsed.users : [];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+};
+
+/**
+ * Password sign-in handing out random session tokens, plus long-lived API
+ * tokens from the users file. Only hashes of tokens are kept in memory
+ */
+export const createAuth = (usersFile: string, sessionTtlMs: number) => {
+  const sessions = new Map<string, Session>();
+
+  const signIn = async (name: string, password: string) => {
+    const user = (await loadUsers(usersFile)).find((u) => u.name === name);
+    const valid = await verifyPassword(
+      password,
+      user?.passwordHash ?? DUMMY_HASH
+    );
+    if (!user?.passwordHash || !valid) return null;
+
+    const token = randomBytes(32).toString("base64url");
+    const expiresAt = Date.now() + sessionTtlMs;
+    sessions.set(sha256(token), { user: user.name, expiresAt });
+    return { token, user: user.name, expiresAt };
+  };
+
+  const signOut = (token: string) => {
+    sessions.delete(sha256(token));
+  };
+
+  // The user a bearer token belongs to, or null
+  const authenticate = async (token: string) => {
+    if (!token) return null;
+    const hash = sha256(token);
+    const users = await loadUsers(usersFile);
+
+    const session = sessions.get(hash);
+    if (session && session.expiresAt <= Date.now()) sessions.delete(hash);
+    else if (session) {
+      return users.find((u) => u.name === session.user) ?? null;
+    }
+
+    return users.find((u) => u.tokenHashes?.includes(hash)) ?? null;
+  };
+
+  return { signIn, signOut, authenticate };
+};
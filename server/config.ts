@@ -0,0 +1,45 @@
+export type UserLimits = {
+  requestsPerMinute: number;
+  dailyRequests: number;
+  // Prompt plus completion tokens as reported by the provider
+  dailyTokens: number;
+};
+
+export type ServerConfig = {
+  openaiApiKey: string;
+  openaiBaseUrl: string;
+  ollamaBaseUrl: string;
+  // Models users may ask for, empty to allow any
+  allowedModels: string[];
+  usersFile: string;
+  sessionTtlMs: number;
+  limits: UserLimits;
+};
+
+const numberOr = (value: string | undefined, fallback: number) => {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number >= 0 ? number : fallback;
+};
+
+/**
+ * Server settings from the environment. None of these use the VITE_ prefix,
+ * so Vite never copies them into the browser bundle
+ */
+export const readServerConfig = (
+  env: Record<string, string | undefined>
+): ServerConfig => ({
+  openaiApiKey: env.OPENAI_API_KEY ?? "",
+  openaiBaseUrl: env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+  ollamaBaseUrl: env.OLLAMA_BASE_URL || "http://localhost:11434",
+  allowedModels: (env.AI_ALLOWED_MODELS ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean),
+  usersFile: env.AI_USERS_FILE || "server/users.json",
+  sessionTtlMs: numberOr(env.AI_SESSION_HOURS, 12) * 60 * 60 * 1000,
+  limits: {
+    requestsPerMinute: numberOr(env.AI_REQUESTS_PER_MINUTE, 10),
+    dailyRequests: numberOr(env.AI_DAILY_REQUESTS, 200),
+    dailyTokens: numberOr(env.AI_DAILY_TOKENS, 200000),
+  },
+});
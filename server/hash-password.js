@@ -0,0 +1,19 @@
+// Prints hashes for server/users.json:
+//   npm run hash-password -- <password>   a passwordHash
+//   npm run hash-password -- --token      a new API token and its hash
+import { createHash, randomBytes, scryptSync } from "node:crypto";
+
+const [arg] = process.argv.slice(2);
+
+if (arg === "--token") {
+  const token = randomBytes(32).toString("base64url");
+  console.log(`token:     ${token}`);
+  console.log(`tokenHash: ${createHash("sha256").update(token).digest("hex")}`);
+} else if (arg) {
+  const salt = randomBytes(16);
+  const key = scryptSync(arg, salt, 64);
+  console.log(`scrypt:${salt.toString("hex")}:${key.toString("hex")}`);
+} else {
+  console.error("Usage: npm run hash-password -- <password> | --token");
+  process.exit(1);
+}
@@ -0,0 +1,60 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+// Profiles of wide datasets make for large prompts, but not this large
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+/**
+ * An error the API turns into a JSON { error, code } response with this
+ * status. The code tells the browser which kind of AI error it is
+ */
+export class HttpError extends Error {
+  status: number;
+  code: string;
+  headers: Record<string, string>;
+
+  constructor(
+    status: number,
+    message: string,
+    options: { code?: string; headers?: Record<string, string> } = {}
+  ) {
+    super(message);
+    this.status = status;
+    this.code = options.code ?? "bad-request";
+    this.headers = options.headers ?? {};
+  }
+}
+
+export const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request too large.", {
+        code: "context-too-long",
+      });
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON.");
+  }
+};
+
+export const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) => {
+  res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+// The bearer token of a request, or an empty string
+export const bearerToken = (req: IncomingMessage) => {
+  const header = req.headers.authorization ?? "";
+  return header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+};
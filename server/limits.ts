@@ -0,0 +1,99 @@
+import type { UserLimits } from "./config";
+
+type Usage = { day: string; requests: number; tokens: number };
+
+export type LimitCheck =
+  | { ok: true }
+  | {
+      ok: false;
+      kind: "rate-limited" | "quota";
+      message: string;
+      retryAfter: number;
+    };
+
+const MINUTE = 60 * 1000;
+
+// Quotas are per UTC day
+const today = () => new Date().toISOString().slice(0, 10);
+
+const secondsUntilTomorrow = () => {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - Date.now()) / 1000);
+};
+
+/**
+ * Sliding one-minute rate limits and daily quotas, keyed by user name (or
+ * client address for sign-in attempts). Counts live in memory and start
+ * over when the server restarts
+ */
+export const createLimiter = () => {
+  const recent = new Map<string, number[]>();
+  const usage = new Map<string, Usage>();
+
+  const usageOf = (key: string): Usage => {
+    const current = usage.get(key);
+    if (current?.day === today()) return current;
+    const fresh = { day: today(), requests: 0, tokens: 0 };
+    usage.set(key, fresh);
+    return fresh;
+  };
+
+  // Counts a request unless the key already made `perMinute` in the last minute
+  const hit = (key: string, perMinute: number): LimitCheck => {
+    const now = Date.now();
+    const times = (recent.get(key) ?? []).filter((t) => t > now - MINUTE);
+    recent.set(key, times);
+
+    if (times.length >= perMinute) {
+      return {
+        ok: false,
+        kind: "rate-limited",
+        message: `Rate limit of ${perMinute} requests per minute reached.`,
+        retryAfter: Math.max(1, Math.ceil((times[0] + MINUTE - now) / 1000)),
+      };
+    }
+    times.push(now);
+    return { ok: true };
+  };
+
+  const checkQuota = (key: string, limits: UserLimits): LimitCheck => {
+    const { requests, tokens } = usageOf(key);
+    if (requests >= limits.dailyRequests) {
+      return {
+        ok: false,
+        kind: "quota",
+        message: `Daily quota of ${limits.dailyRequests} requests used up.`,
+        retryAfter: secondsUntilTomorrow(),
+      };
+    }
+    if (tokens >= limits.dailyTokens) {
+      return {
+        ok: false,
+        kind: "quota",
+        message: `Daily quota of ${limits.dailyTokens} tokens used up.`,
+        retryAfter: secondsUntilTomorrow(),
+      };
+    }
+    return { ok: true };
+  };
+
+  const record = (key: string) => {
+    usageOf(key).requests += 1;
+  };
+
+  const addTokens = (key: string, tokens: number) => {
+    usageOf(key).tokens += tokens;
+  };
+
+  return {
+    hit,
+    checkQuota,
+    record,
+    addTokens,
+    usage: (key: string) => {
+      const { requests, tokens } = usageOf(key);
+      return { requests, tokens };
+    },
+  };
+};
@@ -0,0 +1,28 @@
+import type { Plugin } from "vite";
+import { createApiHandler } from "./api";
+import { readServerConfig } from "./config";
+
+/**
+ * Runs the AI proxy inside Vite's own Node server, for `vite` as well as
+ * `vite preview`, so the API key stays on the server
+ */
+export const aiProxy = (env: Record<string, string | undefined>): Plugin => {
+  const handler = createApiHandler(readServerConfig(env));
+
+  return {
+    name: "ai-proxy",
+    configResolved(config) {
+      if (env.VITE_OPENAI_KEY) {
+        config.logger.warn(
+          "VITE_OPENAI_KEY would be bundled into the app, rename it to OPENAI_API_KEY."
+        );
+      }
+    },
+    configureServer(server) {
+      server.middlewares.use("/api", handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use("/api", handler);
+    },
+  };
+};
@@ -0,0 +1,260 @@
+import type { ServerResponse } from "node:http";
+import type { ServerConfig } from "./config";
+import { HttpError } from "./http";
+
+export type ChatRequest = {
+  provider: "openai" | "ollama";
+  model: string;
+  messages: { role: "system" | "user" | "assistant"; content: string }[];
+  stream: boolean;
+  // JSON schema the reply must follow (structured output)
+  responseFormat?: { name: string; schema: Record<string, unknown> };
+};
+
+// Tokens the provider reported for a request, updated as a stream arrives
+export type ProxyUsage = { tokens: number };
+
+const PROVIDERS = ["openai", "ollama"];
+const ROLES = ["system", "user", "assistant"];
+
+const joinUrl = (baseUrl: string, path: string) =>
+  `${baseUrl.replace(/\/+$/, "")}${path}`;
+
+/**
+ * Checks a chat request from the browser. Only these fields are forwarded,
+ * so clients can't pick the upstream URL or pass other provider options
+ */
+export const parseChatRequest = (
+  body: unknown,
+  allowedModels: string[]
+): ChatRequest => {
+  const request = body as Partial<ChatRequest> | null;
+  if (!request || !PROVIDERS.includes(request.provider as string)) {
+    throw new HttpError(400, "Unknown AI provider.");
+  }
+  if (typeof request.model !== "string" || !request.model.trim()) {
+    throw new HttpError(400, "A model is required.");
+  }
+  if (allowedModels.length > 0 && !allowedModels.includes(request.model)) {
+    throw new HttpError(400, `Model "${request.model}" is not allowed.`);
+  }
+  const validMessages =
+    Array.isArray(request.messages) &&
+    request.messages.length > 0 &&
+    request.messages.every(
+      (m) => ROLES.includes(m?.role) && typeof m.content === "string"
+    );
+  if (!validMessages) throw new HttpError(400, "Messages are malformed.");
+
+  const format = request.responseFormat;
+  const validFormat =
+    format === undefined ||
+    (typeof format?.name === "string" &&
+      /^[\w-]{1,64}$/.test(format.name) &&
+      typeof format.schema === "object" &&
+      format.schema !== null);
+  if (!validFormat) throw new HttpError(400, "Response format is malformed.");
+
+  return {
+    provider: request.provider!,
+    model: request.model,
+    messages: request.messages!.map(({ role, content }) => ({ role, content })),
+    stream: request.stream === true,
+    responseFormat: format && { name: format.name, schema: format.schema },
+  };
+};
+
+// Rough prompt size, for replies that end before the provider reports usage
+export const promptTokens = (request: ChatRequest) =>
+  Math.ceil(
+    request.messages.reduce((sum, m) => sum + m.content.length, 0) / 3.5
+  );
+
+const upstreamRequest = (config: ServerConfig, request: ChatRequest) => {
+  const { provider, model, messages, stream, responseFormat } = request;
+
+  if (provider === "ollama") {
+    return {
+      url: joinUrl(config.ollamaBaseUrl, "/api/chat"),
+      headers: { "Content-Type": "application/json" },
+      // Ollama takes the JSON schema itself as the format
+      body: {
+        model,
+        messages,
+        stream,
+        ...(responseFormat && { format: responseFormat.schema }),
+      },
+    };
+  }
+
+  // Local compatible servers usually run without a key, only OpenAI needs one
+  if (!config.openaiApiKey && config.openaiBaseUrl.includes("api.openai.com")) {
+    throw new HttpError(503, "The server has no OpenAI API key configured.", {
+      code: "missing-key",
+    });
+  }
+  return {
+    url: joinUrl(config.openaiBaseUrl, "/chat/completions"),
+    headers: {
+      ...(config.openaiApiKey && {
+        Authorization: `Bearer ${config.openaiApiKey}`,
+      }),
+      "Content-Type": "application/json",
+    },
+    // Ask for a final usage chunk so streamed replies count against quotas
+    body: {
+      model,
+      messages,
+      stream,
+      ...(stream && { stream_options: { include_usage: true } }),
+      ...(responseFormat && {
+        response_format: {
+          type: "json_schema",
+          json_schema: { ...responseFormat, strict: true },
+        },
+      }),
+    },
+  };
+};
+
+// Token count of an OpenAI or Ollama response (or its last streamed chunk)
+const reportedTokens = (payload: unknown): number => {
+  const data = payload as {
+    usage?: { total_tokens?: number };
+    prompt_eval_count?: number;
+    eval_count?: number;
+  } | null;
+  if (data?.usage?.total_tokens) return data.usage.total_tokens;
+  return (data?.prompt_eval_count ?? 0) + (data?.eval_count ?? 0);
+};
+
+// Tokens in one line of a stream, "data: {...}" for SSE or plain NDJSON
+const lineTokens = (line: string) => {
+  const payload = line.startsWith("data:") ? line.slice(5).trim() : line;
+  if (!payload || payload === "[DONE]") return 0;
+  try {
+    return reportedTokens(JSON.parse(payload));
+  } catch {
+    return 0;
+  }
+};
+
+// The provider's own error text and code, from { error: { message, code } }
+// (OpenAI) or { error } (Ollama)
+const upstreamDetails = (text: string): { message: string; code?: string } => {
+  try {
+    const { error } = JSON.parse(text);
+    return typeof error === "string"
+      ? { message: error }
+      : { message: error?.message ?? text, code: error?.code ?? error?.type };
+  } catch {
+    return { message: text };
+  }
+};
+
+/**
+ * Maps a provider's error response onto the proxy's error codes. Upstream
+ * auth failures are the server's problem, never the user's
+ */
+const upstreamError = (
+  status: number,
+  text: string,
+  retryAfter: string | null
+) => {
+  const { message, code } = upstreamDetails(text);
+
+  if (status === 401 || status === 403) {
+    return new HttpError(502, `The provider rejected the API key: ${message}`, {
+      code: "missing-key",
+    });
+  }
+  if (status === 429) {
+    return new HttpError(429, message, {
+      code: code === "insufficient_quota" ? "quota" : "rate-limited",
+      headers: retryAfter ? { "Retry-After": retryAfter } : {},
+    });
+  }
+  if (
+    code === "context_length_exceeded" ||
+    /context (length|window)|too many tokens|maximum.*tokens/i.test(message)
+  ) {
+    return new HttpError(400, message, { code: "context-too-long" });
+  }
+  if (
+    code === "content_filter" ||
+    /content (management )?policy/i.test(message)
+  ) {
+    return new HttpError(400, message, { code: "content-filtered" });
+  }
+  if (status === 400 || status === 404 || status === 413) {
+    return new HttpError(400, message);
+  }
+  return new HttpError(502, `Provider error ${status}: ${message}`, {
+    code: "server",
+  });
+};
+
+/**
+ * Forwards a chat request and copies the reply, streamed or not, to the
+ * response unchanged. Resolves with the tokens the provider reported
+ */
+export const proxyChat = async (
+  config: ServerConfig,
+  request: ChatRequest,
+  res: ServerResponse,
+  signal: AbortSignal,
+  usage: ProxyUsage
+): Promise<void> => {
+  const { url, headers, body } = upstreamRequest(config, request);
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    if (signal.aborted) throw err;
+    throw new HttpError(502, `The ${request.provider} server is unreachable.`, {
+      code: "network",
+    });
+  }
+
+  if (!upstream.ok) {
+    throw upstreamError(
+      upstream.status,
+      await upstream.text(),
+      upstream.headers.get("retry-after")
+    );
+  }
+
+  res.writeHead(200, {
+    "Content-Type": upstream.headers.get("content-type") ?? "application/json",
+    "Cache-Control": "no-cache",
+  });
+
+  if (!request.stream || !upstream.body) {
+    const text = await upstream.text();
+    res.end(text);
+    try {
+      usage.tokens = reportedTokens(JSON.parse(text));
+    } catch {
+      // No usage to record
+    }
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of upstream.body) {
+    res.write(chunk);
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) usage.tokens += lineTokens(line.trim());
+  }
+  usage.tokens += lineTokens(buffer.trim());
+  res.end();
+};
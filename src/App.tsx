@@ -1,9 +1,60 @@
+import { useEffect, useState } from "react";
 import AIDashboard from "./components/AIDashboard";
-//import AskAI from "./components/AskAI";
+import AskAI from "./components/AskAI";
+import PageNav from "./components/PageNav";
+import { fetchAccount, type Account } from "./helpers/auth";
+import {
+  getDefaultProviderConfig,
+  type ProviderConfig,
+} from "./helpers/providers";
+import { routeFromHash } from "./helpers/routes";
 
 function App() {
-  //return <AskAI />;
-  return <AIDashboard />;
+  const [route, setRoute] = useState(() => routeFromHash(window.location.hash));
+  const [account, setAccount] = useState<Account | null>(null);
+  const [provider, setProvider] = useState<ProviderConfig>(
+    getDefaultProviderConfig
+  );
+
+  // Links and the back button change the hash, the dashboard keeping its
+  // "#view=" link up to date with replaceState doesn't
+  useEffect(() => {
+    const handleHashChange = () =>
+      setRoute(routeFromHash(window.location.hash));
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, []);
+
+  // Resume the session token from an earlier visit, if still valid
+  useEffect(() => {
+    fetchAccount()
+      .then(setAccount)
+      .catch((e) => console.error("Account Error:", e));
+  }, []);
+
+  // Both pages stay mounted so loaded data and drafts survive switching
+  return (
+    <>
+      <PageNav route={route} />
+      <div hidden={route !== "dashboard"}>
+        <AIDashboard
+          active={route === "dashboard"}
+          account={account}
+          onAccountChange={setAccount}
+          provider={provider}
+          onProviderChange={setProvider}
+        />
+      </div>
+      <div hidden={route !== "refine"}>
+        <AskAI
+          account={account}
+          onAccountChange={setAccount}
+          provider={provider}
+          onProviderChange={setProvider}
+        />
+      </div>
+    </>
+  );
 }
 
 export default App;
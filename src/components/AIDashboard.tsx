@@ -1,236 +1,981 @@
-import React, { useState, useCallback, useEffect, useMemo } from "react";
-import Papa from "papaparse";
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
 import {
-  BarChart,
-  Bar,
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  Tooltip,
-  ResponsiveContainer,
-} from "recharts";
-import {
-  convertDataTypes,
-  sampleData,
-  sortDataByKey,
+  MAX_POINT_BUDGET,
+  MIN_POINT_BUDGET,
+  SAMPLING_STRATEGIES,
+  createId,
+  type SamplingStrategy,
 } from "../helpers/functions";
-import { fetchAiDataSummary, askAiQuestion } from "../helpers/apis";
+import { fetchAiDataSummary } from "../helpers/apis";
+import {
+  analyzeRows,
+  needsSampling,
+  type Analysis,
+  type AnalysisRequest,
+} from "../helpers/analysis";
+import type { OutlierMethod } from "../helpers/anomalies";
+import {
+  renamesBetween,
+  type CleaningIssues,
+  type CleaningStep,
+} from "../helpers/cleaning";
+import type { ChartSuggestion, DataInsights } from "../helpers/insights";
+import {
+  AGGREGATIONS,
+  suggestBinWidth,
+  type Aggregation,
+} from "../helpers/aggregate";
+import {
+  CHART_TYPES,
+  acceptedXColumns,
+  pickColumnsForChart,
+  type ChartType,
+} from "../helpers/charts";
+import {
+  EMPTY_FILTERS,
+  activeConditions,
+  describeCondition,
+  removeCondition,
+  type FilterState,
+} from "../helpers/filters";
+import { isNumericType, type ColumnSchema } from "../helpers/schema";
+import {
+  createIngestWorker,
+  type IngestRequest,
+  type IngestResponse,
+  type ParseProgress,
+} from "../helpers/ingest";
+import {
+  defaultImportOptions,
+  fileFromText,
+  type ImportOptions,
+  type ImportPreview,
+} from "../helpers/importers";
+import type { CompareSpec, DatasetInfo, JoinSpec } from "../helpers/datasets";
+import {
+  LAST_SESSION_KEY,
+  deleteSession,
+  duplicateSession,
+  listSessions,
+  putSession,
+  renameSession,
+  type SessionRecord,
+  type SessionView,
+  type ViewSettings,
+} from "../helpers/sessions";
+import {
+  readViewSpecHash,
+  reconcileViewSpec,
+  renameSpecColumns,
+  toViewSpec,
+  validateViewSpec,
+  viewSpecHash,
+  type ViewSpec,
+} from "../helpers/viewSpec";
+import {
+  isAbortError,
+  type ChatMessage,
+  type ProviderConfig,
+} from "../helpers/providers";
+import type { Account } from "../helpers/auth";
+import {
+  DEFAULT_PROMPT_BUDGET,
+  effectiveBudget,
+  estimateCost,
+  messagesTokens,
+  modelInfo,
+  summaryMessages,
+} from "../helpers/prompts";
+import {
+  describeAiError,
+  toAiError,
+  type AiErrorDescription,
+} from "../helpers/aiErrors";
+import ProviderSettings from "./ProviderSettings";
+import AccountPanel from "./AccountPanel";
+import AiErrorNotice from "./AiErrorNotice";
+import PromptEstimate from "./PromptEstimate";
+import ChatPanel from "./ChatPanel";
+import SchemaPanel from "./SchemaPanel";
+import CleaningPanel from "./CleaningPanel";
+import ComputedColumnsPanel from "./ComputedColumnsPanel";
+import DataQualityPanel from "./DataQualityPanel";
+import ChartView from "./ChartView";
+import SeriesPicker from "./SeriesPicker";
+import FilterBuilder from "./FilterBuilder";
+import ImportPanel from "./ImportPanel";
+import DatasetTabs from "./DatasetTabs";
+import JoinPanel from "./JoinPanel";
+import ComparePanel from "./ComparePanel";
+import SessionList from "./SessionList";
+import ViewSpecPanel from "./ViewSpecPanel";
+import ExportPanel from "./ExportPanel";
+import InsightsCards from "./InsightsCards";
+import ShowMePanel from "./ShowMePanel";
+
+type Props = {
+  // False while another page is shown, the dashboard stays mounted
+  active: boolean;
+  // Shared with the other pages, so one sign-in covers them all
+  account: Account | null;
+  onAccountChange: (account: Account | null) => void;
+  provider: ProviderConfig;
+  onProviderChange: (provider: ProviderConfig) => void;
+};
 
-const AIDashboard = () => {
-  const [data, setData] = useState<Record<string, string | number>[]>([]);
-  const [rawData, setRawData] = useState<Record<string, string | number>[]>([]);
-  const [dataKeys, setDataKeys] = useState<string[]>([]);
-  const [selectedKey, setSelectedKey] = useState<string>("");
+const AIDashboard = ({
+  active,
+  account,
+  onAccountChange,
+  provider,
+  onProviderChange,
+}: Props) => {
+  // The rows stay in the worker, which sends back a sample of the typed rows
+  // and the view computed over all of them
+  const [sampleRows, setSampleRows] = useState<
+    Record<string, string | number>[]
+  >([]);
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(
+    null
+  );
+  const [parseWarning, setParseWarning] = useState<string | null>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [importOptions, setImportOptions] = useState<ImportOptions | null>(
+    null
+  );
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(
+    null
+  );
+  const [importError, setImportError] = useState<string | null>(null);
+  const [showPaste, setShowPaste] = useState(false);
+  const [pasteText, setPasteText] = useState("");
+  const [datasets, setDatasets] = useState<DatasetInfo[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState("");
+  const [compareRows, setCompareRows] = useState<
+    Record<string, string | number>[]
+  >([]);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [currentSession, setCurrentSession] = useState<Pick<
+    SessionRecord,
+    "id" | "name" | "createdAt"
+  > | null>(null);
+  const [schema, setSchema] = useState<ColumnSchema[]>([]);
+  const [cleaningIssues, setCleaningIssues] = useState<CleaningIssues | null>(
+    null
+  );
+  // Undone cleaning steps of the active dataset, the next to redo last
+  const [redoSteps, setRedoSteps] = useState<CleaningStep[]>([]);
+  // View spec from the URL hash, waiting for a dataset to apply it to
+  const [pendingSpec, setPendingSpec] = useState<unknown>(() =>
+    readViewSpecHash(window.location.hash)
+  );
+  const [specIssues, setSpecIssues] = useState<string[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [rightAxisKeys, setRightAxisKeys] = useState<string[]>([]);
   const [selectedXAxis, setSelectedXAxis] = useState<string>("");
-  const [chartType, setChartType] = useState<"bar" | "line">("bar");
-  const [aiSummary, setAiSummary] = useState<string>("");
+  const [chartType, setChartType] = useState<ChartType>("bar");
+  const [showTrendLine, setShowTrendLine] = useState(true);
+  const [donut, setDonut] = useState(true);
+  const [groupBy, setGroupBy] = useState(false);
+  const [aggregation, setAggregation] = useState<Aggregation>("mean");
+  const [binWidth, setBinWidth] = useState(0);
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS);
+  const [samplingStrategy, setSamplingStrategy] =
+    useState<SamplingStrategy>("stride");
+  const [pointBudget, setPointBudget] = useState(100);
+  const [stratifyKey, setStratifyKey] = useState("");
+  const [samplingSeed, setSamplingSeed] = useState(1);
+  const [outlierMethod, setOutlierMethod] = useState<OutlierMethod>("iqr");
+  const [highlightOutliers, setHighlightOutliers] = useState(true);
+  const [aiInsights, setAiInsights] = useState<DataInsights | null>(null);
   const [aiLoading, setAiLoading] = useState<boolean>(false);
   const [aiError, setAiError] = useState<string | null>(null);
+  const [summaryError, setSummaryError] = useState<AiErrorDescription | null>(
+    null
+  );
   const [fileName, setFileName] = useState<string>("");
-  const [question, setQuestion] = useState("");
-  const [answer, setAnswer] = useState("");
-  const [questionLoading, setQuestionLoading] = useState(false);
-  const [password, setPassword] = useState("");
-  const [isPasswordValid, setIsPasswordValid] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [promptBudget, setPromptBudget] = useState(DEFAULT_PROMPT_BUDGET);
+  const workerRef = useRef<Worker | null>(null);
+  const analyzeIdRef = useRef(0);
+  const previewIdRef = useRef(0);
+  const compareIdRef = useRef(0);
+  const chartRef = useRef<HTMLDivElement>(null);
+  const summaryAbortRef = useRef<AbortController | null>(null);
+  // The view while the worker re-cleans, fitted to the new columns after
+  const cleaningViewRef = useRef<ViewSpec | null>(null);
+  // View, insights and chat of the datasets switched away from, by id
+  const datasetStatesRef = useRef(new Map<string, SessionView>());
 
-  // Check password validity
+  const rowCount =
+    datasets.find((d) => d.id === activeDatasetId)?.rowCount ?? 0;
+
+  // The mock provider never leaves the browser, the others need a sign-in
+  const aiReady = rowCount > 0 && (provider.id === "mock" || !!account);
+
+  const filterChips = activeConditions(filters);
+
+  // Chartable columns, excluding User_ID
+  const chartSchema = useMemo(
+    () => schema.filter((c) => c.name.toLowerCase() !== "user_id"),
+    [schema]
+  );
+  const dataKeys = useMemo(() => chartSchema.map((c) => c.name), [chartSchema]);
+
+  // Only numeric columns make sense as a metric, fall back to all if none are
+  const yKeys = useMemo(() => {
+    const numeric = chartSchema.filter((c) => isNumericType(c.type));
+    return numeric.length > 0 ? numeric.map((c) => c.name) : dataKeys;
+  }, [chartSchema, dataKeys]);
+
+  // Categorical columns that can split the rows into sampling strata
+  const strataKeys = useMemo(
+    () => acceptedXColumns("pie", chartSchema).map((c) => c.name),
+    [chartSchema]
+  );
+
+  // Abort an in-flight summary request when the dashboard unmounts
+  useEffect(() => () => summaryAbortRef.current?.abort(), []);
+
+  const applyViewSettings = useCallback((view: ViewSettings) => {
+    setSelectedXAxis(view.selectedXAxis);
+    setSelectedKeys(view.selectedKeys);
+    setRightAxisKeys(view.rightAxisKeys);
+    setChartType(view.chartType);
+    setShowTrendLine(view.showTrendLine);
+    setDonut(view.donut);
+    setGroupBy(view.groupBy);
+    setAggregation(view.aggregation);
+    setBinWidth(view.binWidth);
+    setFilters(view.filters);
+    setSamplingStrategy(view.samplingStrategy);
+    setPointBudget(view.pointBudget);
+    setStratifyKey(view.stratifyKey);
+    setSamplingSeed(view.samplingSeed);
+  }, []);
+
+  // Validates an untrusted spec, then fits it to the active dataset's columns
+  const loadViewSpec = useCallback(
+    (value: unknown) => {
+      const result = validateViewSpec(value);
+      if (!result.ok) {
+        setSpecIssues(result.errors);
+        return;
+      }
+      const { spec, issues } = reconcileViewSpec(result.spec, schema);
+      applyViewSettings(spec);
+      setSpecIssues(issues);
+    },
+    [schema, applyViewSettings]
+  );
+
+  // One ingestion worker per dashboard, it holds the parsed rows
   useEffect(() => {
-    const correctPassword = import.meta.env.VITE_AI_API_PASSWORD || "1979";
-    setIsPasswordValid(password === correctPassword);
-  }, [password]);
+    const worker = createIngestWorker();
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<IngestResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "preview":
+          if (message.id === previewIdRef.current) {
+            setImportPreview(message.preview);
+          }
+          break;
+        case "previewError":
+          if (message.id === previewIdRef.current) {
+            setImportPreview(null);
+            setImportError(message.message);
+          }
+          break;
+        case "progress":
+          setParseProgress({
+            loaded: message.loaded,
+            total: message.total,
+            rows: message.rows,
+          });
+          break;
+        case "loaded": {
+          const { dataset } = message;
+          setDatasets((prev) =>
+            prev.some((d) => d.id === dataset.id)
+              ? prev.map((d) => (d.id === dataset.id ? dataset : d))
+              : [...prev, dataset]
+          );
+          setActiveDatasetId(dataset.id);
+          setFileName(dataset.name);
+          setParseProgress(null);
+          setSampleRows(message.sample);
+          setAnalysis(null);
+          setSchema(dataset.schema);
+          setCleaningIssues(message.issues);
+          setRedoSteps([]);
+          setParseWarning(
+            message.errorCount > 0
+              ? `${message.errorCount} malformed row${
+                  message.errorCount === 1 ? "" : "s"
+                } found. ${message.errors.join("; ")}`
+              : null
+          );
 
-  const handleAskQuestion = async () => {
-    if (!question.trim()) return;
+          // Switching back restores where the user left the dataset
+          const saved = datasetStatesRef.current.get(dataset.id);
+          if (saved) {
+            applyViewSettings(saved);
+            setAiInsights(saved.aiInsights);
+            setChatMessages(saved.chatMessages);
+            break;
+          }
+          setAiInsights(null);
+          setChatMessages([]);
 
-    setQuestionLoading(true);
-    setAnswer("");
+          // Default to the first column on X and the first numeric one on Y
+          const keys = dataset.schema.filter(
+            (c) => c.name.toLowerCase() !== "user_id"
+          );
+          const firstKey = keys[0]?.name || "";
+          const firstNumeric = keys.find((c) => isNumericType(c.type));
+          setSelectedXAxis(firstKey);
+          setSelectedKeys([firstNumeric?.name || firstKey]);
+          setRightAxisKeys([]);
+          setFilters(EMPTY_FILTERS);
+          setBinWidth(0);
+          setStratifyKey("");
+          break;
+        }
+        case "sessionOpened": {
+          const { session } = message;
+          const { view } = session;
+          setDatasets(session.datasets);
+          setCurrentSession({
+            id: session.id,
+            name: session.name,
+            createdAt: session.createdAt,
+          });
+          localStorage.setItem(LAST_SESSION_KEY, session.id);
 
-    try {
-      const content = await askAiQuestion(question, data);
-      setAnswer(content);
-    } catch (error) {
-      console.error("Question API Error:", error);
-      setAnswer("Failed to get answer. Please try again.");
-    } finally {
-      setQuestionLoading(false);
-    }
+          applyViewSettings(view);
+          setAiInsights(view.aiInsights ?? null);
+          setChatMessages(view.chatMessages);
+          break;
+        }
+        case "typed":
+          setSampleRows(message.sample);
+          break;
+        case "cleaned": {
+          const { dataset } = message;
+          setDatasets((prev) =>
+            prev.map((d) => (d.id === dataset.id ? dataset : d))
+          );
+          setSampleRows(message.sample);
+          setSchema(dataset.schema);
+          setCleaningIssues(message.issues);
+          // Applied by the pending-spec effect once the new schema is set
+          setPendingSpec(cleaningViewRef.current);
+          cleaningViewRef.current = null;
+          break;
+        }
+        case "compared":
+          if (message.id === compareIdRef.current) setCompareRows(message.rows);
+          break;
+        case "analyzed":
+          // Ignore answers to requests that have since been superseded
+          if (message.id === analyzeIdRef.current) {
+            setAnalysis(message.analysis);
+          }
+          break;
+        case "error":
+          setParseProgress(null);
+          setAiError(message.message);
+          break;
+      }
+    };
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [applyViewSettings]);
+
+  const postToWorker = (request: IngestRequest) =>
+    workerRef.current?.postMessage(request);
+
+  // Files and pasted text first open the import preview with guessed options
+  const startImport = async (file: File) => {
+    const head = await file.slice(0, 2048).text();
+    setImportPreview(null);
+    setImportError(null);
+    setImportOptions(defaultImportOptions(file.name, head));
+    setPendingFile(file);
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
+    e.target.value = ""; // Allow picking the same file again
+    if (file) startImport(file);
+  };
+
+  const handlePaste = () => {
+    if (!pasteText.trim()) return;
+    startImport(fileFromText(pasteText));
+    setShowPaste(false);
+    setPasteText("");
+  };
+
+  const cancelImport = () => {
+    setPendingFile(null);
+    setImportOptions(null);
+  };
+
+  // Each import becomes a new dataset alongside the ones already loaded
+  const confirmImport = () => {
+    if (!pendingFile || !importOptions) return;
+    const file = pendingFile;
+    cancelImport();
+    saveActiveState();
+
+    setAiError(null);
+    setParseWarning(null);
+    setParseProgress({ loaded: 0, total: file.size, rows: 0 });
 
-    setFileName(
-      file.name
-        .replace(".csv", "")
+    const target = {
+      id: createId(),
+      name: file.name
+        .replace(/\.[^.]+$/, "")
         .replace(/_/g, " ")
-        .replace(/\s+\S+$/, "")
+        .replace(/\s+\S+$/, ""),
+    };
+
+    // The first file of a workspace starts a new saved session
+    if (!currentSession) {
+      const session = {
+        id: createId(),
+        name: target.name,
+        createdAt: Date.now(),
+      };
+      setCurrentSession(session);
+      localStorage.setItem(LAST_SESSION_KEY, session.id);
+    }
+
+    // Parsed in chunks by the worker, progress and the result arrive as messages
+    postToWorker({ type: "parse", file, options: importOptions, target });
+  };
+
+  // Kept until the dataset is active again, whatever makes another one active
+  const saveActiveState = () => {
+    if (activeDatasetId) {
+      datasetStatesRef.current.set(activeDatasetId, sessionView);
+    }
+  };
+
+  const switchDataset = (id: string) => {
+    saveActiveState();
+    postToWorker({ type: "activate", id });
+  };
+
+  const clearActiveDataset = () => {
+    setActiveDatasetId("");
+    setFileName("");
+    setSampleRows([]);
+    setAnalysis(null);
+    setSchema([]);
+    setParseWarning(null);
+    setAiInsights(null);
+    setChatMessages([]);
+  };
+
+  const removeDataset = (id: string) => {
+    postToWorker({ type: "remove", id });
+    const remaining = datasets.filter((d) => d.id !== id);
+    setDatasets(remaining);
+    if (id === activeDatasetId) {
+      if (remaining.length > 0) switchDataset(remaining[0].id);
+      else clearActiveDataset();
+    }
+    datasetStatesRef.current.delete(id);
+  };
+
+  const handleJoin = (spec: JoinSpec) => {
+    const left = datasets.find((d) => d.id === spec.leftId);
+    const right = datasets.find((d) => d.id === spec.rightId);
+    if (!left || !right) return;
+
+    saveActiveState();
+    setAiError(null);
+    postToWorker({
+      type: "join",
+      spec,
+      target: { id: createId(), name: `${left.name} ⋈ ${right.name}` },
+    });
+  };
+
+  const reportSessionError = (error: unknown) =>
+    setAiError(
+      `Session Error: ${error instanceof Error ? error.message : String(error)}`
     );
 
-    setData([]);
-    setAiSummary("");
+  const refreshSessions = useCallback(
+    () =>
+      listSessions()
+        .then(setSessions)
+        .catch((error) => reportSessionError(error)),
+    []
+  );
+
+  // Autosaving stops until the worker confirms the session has been loaded
+  const openSession = (id: string) => {
+    setCurrentSession(null);
     setAiError(null);
+    datasetStatesRef.current.clear();
+    postToWorker({ type: "openSession", id });
+  };
 
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        const csvData = results.data as Record<string, string>[];
-        const parsedData = convertDataTypes(csvData);
+  // Closes every dataset, the current session stays saved as it was
+  const newSession = () => {
+    for (const dataset of datasets)
+      postToWorker({ type: "remove", id: dataset.id });
+    setDatasets([]);
+    datasetStatesRef.current.clear();
+    setCurrentSession(null);
+    localStorage.removeItem(LAST_SESSION_KEY);
+    clearActiveDataset();
+  };
 
-        setRawData(parsedData); // Store unsorted data
+  const handleRenameSession = (id: string, name: string) => {
+    if (currentSession?.id === id) {
+      setCurrentSession({ ...currentSession, name });
+    }
+    renameSession(id, name).then(refreshSessions).catch(reportSessionError);
+  };
 
-        // Extract keys from first data entry, excluding User_ID
-        if (parsedData.length > 0) {
-          const keys = Object.keys(parsedData[0]).filter(
-            (key) => key.toLowerCase() !== "user_id"
-          );
-          setDataKeys(keys);
-          const firstKey = keys[0] || "";
-          setSelectedKey(firstKey);
-          setSelectedXAxis(firstKey);
+  const handleDuplicateSession = (id: string) =>
+    duplicateSession(id, createId())
+      .then(refreshSessions)
+      .catch(reportSessionError);
+
+  const handleDeleteSession = (id: string) => {
+    if (currentSession?.id === id) newSession();
+    deleteSession(id).then(refreshSessions).catch(reportSessionError);
+  };
+
+  const handleCompare = useCallback((spec: CompareSpec) => {
+    workerRef.current?.postMessage({
+      type: "compare",
+      id: ++compareIdRef.current,
+      spec,
+    } satisfies IngestRequest);
+  }, []);
+
+  // Reopen the last session after a reload, unless a shared view link was
+  // opened (it is meant for the data about to be uploaded)
+  useEffect(() => {
+    const lastId = readViewSpecHash(window.location.hash)
+      ? null
+      : localStorage.getItem(LAST_SESSION_KEY);
+    let cancelled = false;
+    listSessions()
+      .then((list) => {
+        if (cancelled) return;
+        setSessions(list);
+        if (lastId && list.some((session) => session.id === lastId)) {
+          workerRef.current?.postMessage({
+            type: "openSession",
+            id: lastId,
+          } satisfies IngestRequest);
         }
-      },
-      error: (error) => {
-        setAiError(`CSV Parsing Error: ${error.message}`);
-      },
-    });
+      })
+      .catch(() => {
+        // IndexedDB can be unavailable (private mode), sessions just stay off
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Refresh the preview whenever the file or an import option changes
+  useEffect(() => {
+    if (!pendingFile || !importOptions) return;
+    setImportError(null);
+    workerRef.current?.postMessage({
+      type: "preview",
+      id: ++previewIdRef.current,
+      file: pendingFile,
+      options: importOptions,
+    } satisfies IngestRequest);
+  }, [pendingFile, importOptions]);
+
+  const handleSchemaChange = (next: ColumnSchema[]) => {
+    setSchema(next);
+    setDatasets((prev) =>
+      prev.map((d) => (d.id === activeDatasetId ? { ...d, schema: next } : d))
+    );
+    postToWorker({ type: "retype", schema: next });
+
+    // Drop Y series whose column is no longer numeric after an override
+    const numeric = next.filter(
+      (c) => isNumericType(c.type) && c.name.toLowerCase() !== "user_id"
+    );
+    const kept = selectedKeys.filter((key) =>
+      numeric.some((c) => c.name === key)
+    );
+    if (kept.length === selectedKeys.length) return;
+    setSelectedKeys(
+      kept.length > 0 || numeric.length === 0 ? kept : [numeric[0].name]
+    );
+  };
+
+  // Cleaning replaces the active dataset's steps, the worker replays them all
+  const cleaningSteps = useMemo(
+    () => datasets.find((d) => d.id === activeDatasetId)?.cleaning ?? [],
+    [datasets, activeDatasetId]
+  );
+  const changeCleaning = (next: CleaningStep[], redo: CleaningStep[]) => {
+    // Renamed columns stay in the view under their new name
+    cleaningViewRef.current = renameSpecColumns(
+      viewSpec,
+      renamesBetween(cleaningSteps, next)
+    );
+    setRedoSteps(redo);
+    postToWorker({ type: "clean", steps: next });
   };
+  const handleUndoCleaning = () =>
+    changeCleaning(cleaningSteps.slice(0, -1), [
+      ...redoSteps,
+      ...cleaningSteps.slice(-1),
+    ]);
+  const handleRedoCleaning = () =>
+    changeCleaning(
+      [...cleaningSteps, ...redoSteps.slice(-1)],
+      redoSteps.slice(0, -1)
+    );
+  const handleRevertCleaning = (index: number) =>
+    changeCleaning(cleaningSteps.slice(0, index), [
+      ...redoSteps,
+      ...cleaningSteps.slice(index).reverse(),
+    ]);
+
+  // The view is fitted to the remaining columns, as for a shared spec
+  const handleRemoveComputed = (name: string) => {
+    const next = schema.filter((c) => c.name !== name);
+    handleSchemaChange(next);
+    applyViewSettings(reconcileViewSpec(viewSpec, next).spec);
+  };
+
+  // Single-series chart types only plot the first selected Y column
+  const selectedKey = selectedKeys[0] ?? "";
+  const seriesKeys = useMemo(
+    () =>
+      CHART_TYPES[chartType].multiSeries
+        ? selectedKeys
+        : selectedKeys.slice(0, 1),
+    [chartType, selectedKeys]
+  );
+
+  const isXNumeric = isNumericType(
+    schema.find((c) => c.name === selectedXAxis)?.type
+  );
+  // Pie charts always show aggregated shares, the cartesian ones on request
+  const isAggregated =
+    chartType === "pie" ||
+    (groupBy && ["bar", "line", "area"].includes(chartType));
+
+  // Token budget of the AI prompts, within the model's context window
+  const budget = effectiveBudget(Math.max(500, promptBudget), provider.model);
+
+  // Point charts are sorted and sampled by the worker, which caches the sort
+  // per X column so switching axes doesn't re-sort every row
+  const needsSample = needsSampling(chartType, isAggregated);
+
+  // Everything computed over all rows (the chart, statistics, the AI context
+  // and the quality checks) comes from the worker for this request
+  const analysisRequest = useMemo<AnalysisRequest>(
+    () => ({
+      filters,
+      chartType,
+      xKey: selectedXAxis,
+      seriesKeys,
+      aggregated: isAggregated,
+      aggregation,
+      binWidth,
+      maxPoints: pointBudget,
+      sampling: {
+        strategy: samplingStrategy,
+        xKey: isXNumeric ? selectedXAxis : undefined,
+        yKey: selectedKey,
+        stratifyKey: stratifyKey || undefined,
+        seed: samplingSeed,
+      },
+      showTrendLine,
+      highlightOutliers,
+      outlierMethod,
+      budget,
+    }),
+    [
+      filters,
+      chartType,
+      selectedXAxis,
+      seriesKeys,
+      isAggregated,
+      aggregation,
+      binWidth,
+      pointBudget,
+      samplingStrategy,
+      isXNumeric,
+      selectedKey,
+      stratifyKey,
+      samplingSeed,
+      showTrendLine,
+      highlightOutliers,
+      outlierMethod,
+      budget,
+    ]
+  );
+  // A new sample means the rows changed (loaded, retyped or cleaned)
+  useEffect(() => {
+    if (!activeDatasetId) return;
+    workerRef.current?.postMessage({
+      type: "analyze",
+      id: ++analyzeIdRef.current,
+      request: analysisRequest,
+    } satisfies IngestRequest);
+  }, [activeDatasetId, analysisRequest, sampleRows]);
 
-  // Memoize sorted and sampled data for performance
-  const displayData = useMemo(() => {
-    if (rawData.length === 0 || !selectedXAxis) return [];
+  // Until the worker answers for a dataset, the view is that of no rows
+  const emptyAnalysis = useMemo(
+    () => analyzeRows([], schema, analysisRequest, new Map()),
+    [schema, analysisRequest]
+  );
+  const {
+    filteredCount,
+    profile,
+    context: datasetContext,
+    binWidth: effectiveBinWidth,
+    chartRows: data,
+    trendLines,
+    outliers: chartOutliers,
+    quality: qualityReport,
+    flagged: flaggedRecords,
+    distinctValues,
+  } = analysis ?? emptyAnalysis;
+  const summaryTokens = messagesTokens(
+    summaryMessages(datasetContext, selectedXAxis, seriesKeys)
+  );
 
-    const sorted = sortDataByKey(rawData, selectedXAxis);
-    const sampled = sampleData(sorted, 100); // Limit to 100 points
+  const seriesLabels = useMemo(() => {
+    const aggLabel = AGGREGATIONS.find((a) => a.value === aggregation)?.label;
+    return Object.fromEntries(
+      seriesKeys.map((key) => [
+        key,
+        isAggregated
+          ? `${aggLabel} of ${key.replace(/_/g, " ")}`
+          : key.replace(/_/g, " "),
+      ])
+    );
+  }, [seriesKeys, aggregation, isAggregated]);
 
-    return sampled;
-  }, [selectedXAxis, rawData]);
+  // Chart element (memoized for performance)
+  const renderChart = useMemo(
+    () => (
+      <ChartView
+        chartType={chartType}
+        data={data}
+        xKey={selectedXAxis}
+        yKeys={seriesKeys}
+        rightAxisKeys={rightAxisKeys}
+        seriesLabels={seriesLabels}
+        profile={profile}
+        trendLines={trendLines}
+        donut={donut}
+        outliers={chartOutliers}
+      />
+    ),
+    [
+      chartType,
+      data,
+      selectedXAxis,
+      seriesKeys,
+      rightAxisKeys,
+      seriesLabels,
+      profile,
+      trendLines,
+      donut,
+      chartOutliers,
+    ]
+  );
+
+  const parsePercent = parseProgress
+    ? Math.min(
+        100,
+        Math.round((parseProgress.loaded / (parseProgress.total || 1)) * 100)
+      )
+    : 0;
+
+  const viewSettings = useMemo<ViewSettings>(
+    () => ({
+      selectedXAxis,
+      selectedKeys,
+      rightAxisKeys,
+      chartType,
+      showTrendLine,
+      donut,
+      groupBy,
+      aggregation,
+      binWidth,
+      filters,
+      samplingStrategy,
+      pointBudget,
+      stratifyKey,
+      samplingSeed,
+    }),
+    [
+      selectedXAxis,
+      selectedKeys,
+      rightAxisKeys,
+      chartType,
+      showTrendLine,
+      donut,
+      groupBy,
+      aggregation,
+      binWidth,
+      filters,
+      samplingStrategy,
+      pointBudget,
+      stratifyKey,
+      samplingSeed,
+    ]
+  );
+  const viewSpec = useMemo(() => toViewSpec(viewSettings), [viewSettings]);
+  const sessionView = useMemo<SessionView>(
+    () => ({ ...viewSettings, aiInsights, chatMessages }),
+    [viewSettings, aiInsights, chatMessages]
+  );
 
-  // Update data state when displayData changes
+  // A spec from the link is applied once the first dataset's schema is known
   useEffect(() => {
-    setData(displayData);
-  }, [displayData]);
-
-  // Helper to render different chart types (memoized for performance)
-  const renderChart = useMemo(() => {
-    if (chartType === "bar") {
-      return (
-        <BarChart data={data}>
-          <XAxis
-            dataKey={selectedXAxis}
-            stroke="#6366f1"
-            height={70}
-            label={{
-              value: selectedXAxis.replace(/_/g, " "),
-              position: "insideBottom",
-              offset: 0,
-              className: "hidden lg:block",
-            }}
-          />
-          <YAxis
-            stroke="#6366f1"
-            width={80}
-            className="hidden lg:block"
-            label={{
-              value: selectedKey.replace(/_/g, " "),
-              angle: -90,
-              position: "insideLeft",
-              className: "hidden lg:block",
-            }}
-          />
-          <YAxis stroke="#6366f1" width={20} className="lg:hidden" />
-          <Tooltip
-            formatter={(value, name) => [value, name]}
-            labelFormatter={(label) =>
-              `${selectedXAxis.replace(/_/g, " ")}: ${label}`
-            }
-          />
-          <Bar
-            dataKey={selectedKey}
-            fill="#3b82f6"
-            name={selectedKey.replace(/_/g, " ")}
-            radius={[4, 4, 0, 0]}
-          />
-        </BarChart>
-      );
-    }
+    if (pendingSpec === null || schema.length === 0) return;
+    setPendingSpec(null);
+    loadViewSpec(pendingSpec);
+  }, [pendingSpec, schema, loadViewSpec]);
 
-    if (chartType === "line") {
-      return (
-        <LineChart data={data}>
-          <XAxis
-            dataKey={selectedXAxis}
-            stroke="#6366f1"
-            height={70}
-            label={{
-              value: selectedXAxis.replace(/_/g, " "),
-              position: "insideBottom",
-              offset: 0,
-              className: "hidden lg:block",
-            }}
-          />
-          <YAxis
-            stroke="#6366f1"
-            width={80}
-            className="hidden lg:block"
-            label={{
-              value: selectedKey.replace(/_/g, " "),
-              angle: -90,
-              position: "insideLeft",
-              className: "hidden lg:block",
-            }}
-          />
-          <YAxis stroke="#6366f1" width={20} className="lg:hidden" />
-          <Tooltip
-            formatter={(value, name) => [value, name]}
-            labelFormatter={(label) =>
-              `${selectedXAxis.replace(/_/g, " ")}: ${label}`
-            }
-          />
-          <Line
-            type="monotone"
-            dataKey={selectedKey}
-            stroke="#8b5cf6"
-            strokeWidth={2}
-            name={selectedKey.replace(/_/g, " ")}
-            dot={{ fill: "#8b5cf6", r: 4 }}
-            activeDot={{ r: 6 }}
-          />
-        </LineChart>
-      );
-    }
+  // Keep the URL pointing at the current view so it can be shared
+  useEffect(() => {
+    if (!active || pendingSpec !== null || datasets.length === 0) return;
+    window.history.replaceState(null, "", viewSpecHash(viewSpec));
+  }, [active, pendingSpec, datasets.length, viewSpec]);
 
-    return null;
-  }, [chartType, data, selectedXAxis, selectedKey]);
+  // Autosave the session shortly after the view or the AI output changes
+  useEffect(() => {
+    if (!currentSession || datasets.length === 0) return;
+    const timer = setTimeout(() => {
+      putSession({
+        ...currentSession,
+        updatedAt: Date.now(),
+        datasets,
+        activeDatasetId,
+        view: sessionView,
+      })
+        .then(refreshSessions)
+        .catch((error) => reportSessionError(error));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [currentSession, datasets, activeDatasetId, sessionView, refreshSessions]);
+
+  // The worker stores each dataset's rows once and drops closed ones
+  const sessionId = currentSession?.id;
+  const datasetIds = datasets.map((d) => d.id).join(",");
+  useEffect(() => {
+    if (!sessionId || !datasetIds) return;
+    workerRef.current?.postMessage({
+      type: "saveRows",
+      sessionId,
+      datasetIds: datasetIds.split(","),
+    } satisfies IngestRequest);
+  }, [sessionId, datasetIds]);
+
+  const handleChartTypeChange = (type: ChartType) => {
+    setChartType(type);
+
+    // Move the axes onto columns the new chart type can display
+    const { x, y } = pickColumnsForChart(type, chartSchema, {
+      x: selectedXAxis,
+      y: selectedKey,
+    });
+    setSelectedXAxis(x);
+    setSelectedKeys((prev) =>
+      prev[0] === y ? prev : [y, ...prev.slice(1).filter((key) => key !== y)]
+    );
+
+    // Shares only make sense for additive aggregations
+    if (type === "pie" && aggregation !== "sum") setAggregation("count");
+  };
+
+  // Goes through the spec checks like a shared view, so issues are reported
+  const applyChartSuggestion = (suggestion: ChartSuggestion) =>
+    loadViewSpec(
+      toViewSpec({
+        ...viewSettings,
+        chartType: suggestion.chartType,
+        selectedXAxis: suggestion.xColumn,
+        selectedKeys: suggestion.yColumns,
+        rightAxisKeys: [],
+      })
+    );
 
   const handleFetchAiSummary = useCallback(async () => {
-    if (data.length === 0) {
-      setAiError("Please upload data first.");
+    if (filteredCount === 0) {
+      setAiError(
+        rowCount === 0
+          ? "Please upload data first."
+          : "No rows match the active filters."
+      );
       return;
     }
 
+    const controller = new AbortController();
+    summaryAbortRef.current = controller;
     setAiLoading(true);
     setAiError(null);
-    setAiSummary("");
+    setSummaryError(null);
+    setAiInsights(null);
 
     try {
-      const content = await fetchAiDataSummary(
-        data,
-        selectedXAxis,
-        selectedKey
+      setAiInsights(
+        await fetchAiDataSummary(
+          provider,
+          datasetContext,
+          chartSchema,
+          selectedXAxis,
+          seriesKeys,
+          { signal: controller.signal }
+        )
       );
-      setAiSummary(content);
     } catch (e) {
-      console.error("OpenAI API Error:", e);
-      setAiError(
-        "Failed to fetch AI summary. Check API key and network connection."
-      );
+      if (!isAbortError(e)) {
+        console.error("AI Provider Error:", e);
+        setSummaryError(describeAiError(e));
+        if (toAiError(e).kind === "auth") onAccountChange(null);
+      }
     } finally {
+      summaryAbortRef.current = null;
       setAiLoading(false);
     }
-  }, [data, selectedKey, selectedXAxis]);
+  }, [
+    provider,
+    rowCount,
+    filteredCount,
+    datasetContext,
+    chartSchema,
+    seriesKeys,
+    selectedXAxis,
+    onAccountChange,
+  ]);
 
   return (
     <div className="p-8 min-h-screen bg-gradient-to-br from-indigo-50 to-purple-100">
@@ -239,44 +984,165 @@ const AIDashboard = () => {
           <h1 className="text-3xl font-bold text-indigo-700 flex items-center">
             <span className="text-2xl mr-3">📊</span> {fileName}
           </h1>
-          <div className="flex items-center gap-2">
-            <label className="text-sm font-medium text-gray-700">
-              AI Password:
+          <AccountPanel account={account} onChange={onAccountChange} />
+        </div>
+        <div className="mb-6">
+          <div className="flex items-center gap-2 flex-wrap">
+            <ProviderSettings value={provider} onChange={onProviderChange} />
+            <label
+              className="flex items-center gap-2 text-sm text-gray-700"
+              title={`Context window of ${provider.model}: ${modelInfo(provider.model).contextWindow.toLocaleString()} tokens`}
+            >
+              Prompt budget
+              <input
+                type="number"
+                min={500}
+                step={500}
+                value={promptBudget}
+                onChange={(e) => setPromptBudget(Number(e.target.value) || 0)}
+                className="px-3 py-2 border-2 border-gray-300 rounded-lg text-sm w-28 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              tokens
             </label>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="Enter password"
-              className={`px-3 py-2 border-2 rounded-lg text-sm focus:outline-none focus:ring-2 transition-all ${
-                password
-                  ? isPasswordValid
-                    ? "border-green-400 focus:ring-green-500 bg-green-50"
-                    : "border-red-400 focus:ring-red-500 bg-red-50"
-                  : "border-gray-300 focus:ring-indigo-500"
-              }`}
-            />
-            {password && (
-              <span className="text-xl">{isPasswordValid ? "✅" : "❌"}</span>
-            )}
           </div>
         </div>
+        <SessionList
+          sessions={sessions}
+          currentId={currentSession?.id ?? ""}
+          onOpen={openSession}
+          onRename={handleRenameSession}
+          onDuplicate={handleDuplicateSession}
+          onDelete={handleDeleteSession}
+          onNew={newSession}
+        />
         <div className="mb-8 border-b pb-6">
           <label className="block text-lg font-medium text-gray-700 mb-3">
-            Upload CSV Data File
+            Upload Data File
           </label>
-          <input
-            type="file"
-            accept=".csv"
-            onChange={handleFileUpload}
-            className="block w-full text-sm text-gray-500
-                       file:mr-4 file:py-2 file:px-4
-                       file:rounded-full file:border-0
-                       file:text-sm file:font-semibold
-                       file:bg-indigo-50 file:text-indigo-700
-                       hover:file:bg-indigo-100 cursor-pointer"
-          />
+          <div className="flex items-center gap-4">
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.json,.jsonl,.ndjson,.xlsx,.xlsm,.xls"
+              onChange={handleFileUpload}
+              className="block w-full text-sm text-gray-500
+                         file:mr-4 file:py-2 file:px-4
+                         file:rounded-full file:border-0
+                         file:text-sm file:font-semibold
+                         file:bg-indigo-50 file:text-indigo-700
+                         hover:file:bg-indigo-100 cursor-pointer"
+            />
+            <button
+              onClick={() => setShowPaste((prev) => !prev)}
+              className="shrink-0 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              {showPaste ? "Hide paste box" : "📋 Paste a table"}
+            </button>
+          </div>
+          {showPaste && (
+            <div className="mt-3">
+              <textarea
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                rows={6}
+                placeholder="Paste cells copied from a spreadsheet, CSV text or JSON"
+                className="w-full p-3 border-2 border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                onClick={handlePaste}
+                disabled={!pasteText.trim()}
+                className="mt-2 px-4 py-2 rounded-full text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-300 disabled:text-gray-500"
+              >
+                Preview pasted data
+              </button>
+            </div>
+          )}
+          {pendingFile && importOptions && (
+            <ImportPanel
+              fileName={pendingFile.name}
+              options={importOptions}
+              onOptionsChange={setImportOptions}
+              preview={importPreview}
+              error={importError}
+              onImport={confirmImport}
+              onCancel={cancelImport}
+            />
+          )}
+          {parseProgress && (
+            <div className="mt-3">
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-500 transition-all duration-200"
+                  style={{ width: `${parsePercent}%` }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Parsing… {parsePercent}% ({parseProgress.rows.toLocaleString()}{" "}
+                rows)
+              </p>
+            </div>
+          )}
+          {!parseProgress && rowCount > 0 && (
+            <p className="mt-3 text-xs text-gray-500">
+              {rowCount.toLocaleString()} rows loaded
+            </p>
+          )}
+          {parseWarning && (
+            <p className="mt-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1">
+              ⚠️ {parseWarning}
+            </p>
+          )}
+          {datasets.length > 0 && (
+            <DatasetTabs
+              datasets={datasets}
+              activeId={activeDatasetId}
+              onSelect={switchDataset}
+              onRemove={removeDataset}
+            />
+          )}
         </div>
+        {datasets.length > 1 && (
+          <JoinPanel datasets={datasets} onJoin={handleJoin} />
+        )}
+        {datasets.length > 1 && (
+          <ComparePanel
+            datasets={datasets}
+            activeId={activeDatasetId}
+            rows={compareRows}
+            profile={profile}
+            onCompare={handleCompare}
+          />
+        )}
+        {cleaningIssues && schema.length > 0 && (
+          <CleaningPanel
+            issues={cleaningIssues}
+            columnNames={schema.map((c) => c.name)}
+            steps={cleaningSteps}
+            redoCount={redoSteps.length}
+            onApply={(step) => changeCleaning([...cleaningSteps, step], [])}
+            onUndo={handleUndoCleaning}
+            onRedo={handleRedoCleaning}
+            onRevert={handleRevertCleaning}
+          />
+        )}
+        {schema.length > 0 && (
+          <SchemaPanel schema={schema} onChange={handleSchemaChange} />
+        )}
+        {schema.length > 0 && (
+          <ComputedColumnsPanel
+            schema={schema}
+            rows={sampleRows}
+            onAdd={(column) => handleSchemaChange([...schema, column])}
+            onRemove={handleRemoveComputed}
+          />
+        )}
+        {schema.length > 0 && (
+          <FilterBuilder
+            filters={filters}
+            onChange={setFilters}
+            columns={chartSchema}
+            distinctValues={distinctValues}
+          />
+        )}
         <div className="flex flex-col lg:grid lg:grid-cols-2 lg:gap-8">
           <div className="lg:col-span-1 mb-8 lg:mb-0 flex flex-col">
             <div className="mb-4">
@@ -284,70 +1150,317 @@ const AIDashboard = () => {
                 <h2 className="text-2xl font-semibold text-gray-800">
                   Visualization:
                 </h2>
-                {rawData.length > 100 && (
+                {isAggregated && data.length > 0 ? (
                   <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-                    Showing {data.length} of {rawData.length} points
+                    {data.length} groups from {filteredCount} rows
                   </span>
+                ) : (
+                  needsSample &&
+                  (filteredCount > pointBudget || filterChips.length > 0) && (
+                    <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                      Showing {data.length} of {filteredCount} points
+                      {filterChips.length > 0 && ` (filtered from ${rowCount})`}
+                    </span>
+                  )
                 )}
               </div>
+              {filterChips.length > 0 && (
+                <div className="flex gap-2 flex-wrap mb-2">
+                  {filterChips.map((condition) => (
+                    <span
+                      key={condition.id}
+                      className="inline-flex items-center gap-1 pl-3 pr-1 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-medium"
+                    >
+                      {describeCondition(condition)}
+                      <button
+                        onClick={() =>
+                          setFilters(removeCondition(filters, condition.id))
+                        }
+                        className="px-1 rounded-full hover:bg-amber-200"
+                        title="Remove filter"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
               {dataKeys.length > 0 && (
                 <div className="flex gap-2 flex-wrap">
                   <select
                     value={chartType}
                     onChange={(e) =>
-                      setChartType(e.target.value as "bar" | "line")
+                      handleChartTypeChange(e.target.value as ChartType)
                     }
                     className="px-3 py-2 rounded-lg border-2 border-purple-300 bg-white text-gray-800 font-medium focus:outline-none focus:ring-2 focus:ring-purple-500 cursor-pointer text-sm"
                     title="Chart Type"
                   >
-                    <option value="bar">📊 Bar Chart</option>
-                    <option value="line">📈 Line Chart</option>
+                    {(Object.keys(CHART_TYPES) as ChartType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {CHART_TYPES[type].label}
+                      </option>
+                    ))}
                   </select>
-                  <div>
-                    <select
-                      value={selectedXAxis}
-                      onChange={(e) => setSelectedXAxis(e.target.value)}
-                      className="px-3 py-2 mr-2 rounded-lg border-2 border-green-300 bg-white text-gray-800 font-medium focus:outline-none focus:ring-2 focus:ring-green-500 cursor-pointer text-sm"
-                      title="X-axis"
-                    >
-                      {dataKeys.map((key) => (
-                        <option key={key} value={key}>
-                          X: {key.replace(/_/g, " ")}
-                        </option>
-                      ))}
-                    </select>
-                    <select
-                      value={selectedKey}
-                      onChange={(e) => setSelectedKey(e.target.value)}
-                      className="px-3 py-2 rounded-lg border-2 border-indigo-300 bg-white text-gray-800 font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer text-sm"
-                      title="Y-axis"
-                    >
-                      {dataKeys.map((key) => (
-                        <option key={key} value={key}>
-                          Y: {key.replace(/_/g, " ")}
-                        </option>
-                      ))}
-                    </select>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    {CHART_TYPES[chartType].x !== "none" && (
+                      <select
+                        value={selectedXAxis}
+                        onChange={(e) => setSelectedXAxis(e.target.value)}
+                        className="px-3 py-2 rounded-lg border-2 border-green-300 bg-white text-gray-800 font-medium focus:outline-none focus:ring-2 focus:ring-green-500 cursor-pointer text-sm"
+                        title="X-axis"
+                      >
+                        {acceptedXColumns(chartType, chartSchema).map(
+                          ({ name }) => (
+                            <option key={name} value={name}>
+                              X: {name.replace(/_/g, " ")}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    )}
+                    {CHART_TYPES[chartType].multiSeries && (
+                      <SeriesPicker
+                        options={yKeys}
+                        selected={selectedKeys}
+                        rightAxisKeys={rightAxisKeys}
+                        onChange={setSelectedKeys}
+                        onRightAxisChange={setRightAxisKeys}
+                      />
+                    )}
+                    {CHART_TYPES[chartType].y !== "none" &&
+                      !CHART_TYPES[chartType].multiSeries && (
+                        <select
+                          value={selectedKey}
+                          onChange={(e) =>
+                            setSelectedKeys((prev) => [
+                              e.target.value,
+                              ...prev
+                                .slice(1)
+                                .filter((k) => k !== e.target.value),
+                            ])
+                          }
+                          className="px-3 py-2 rounded-lg border-2 border-indigo-300 bg-white text-gray-800 font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer text-sm"
+                          title="Y-axis"
+                        >
+                          {yKeys.map((key) => (
+                            <option key={key} value={key}>
+                              Y: {key.replace(/_/g, " ")}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                  </div>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    {["bar", "line", "area"].includes(chartType) && (
+                      <label className="flex items-center gap-1 text-sm font-medium text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={groupBy}
+                          onChange={(e) => setGroupBy(e.target.checked)}
+                          className="accent-indigo-600"
+                        />
+                        Group by X
+                      </label>
+                    )}
+                    {chartType === "scatter" && (
+                      <label className="flex items-center gap-1 text-sm font-medium text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={showTrendLine}
+                          onChange={(e) => setShowTrendLine(e.target.checked)}
+                          className="accent-indigo-600"
+                        />
+                        Trend line
+                      </label>
+                    )}
+                    {chartType === "pie" && (
+                      <label className="flex items-center gap-1 text-sm font-medium text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={donut}
+                          onChange={(e) => setDonut(e.target.checked)}
+                          className="accent-indigo-600"
+                        />
+                        Donut
+                      </label>
+                    )}
+                    {isAggregated && (
+                      <select
+                        value={aggregation}
+                        onChange={(e) =>
+                          setAggregation(e.target.value as Aggregation)
+                        }
+                        className="px-3 py-2 rounded-lg border-2 border-orange-300 bg-white text-gray-800 font-medium focus:outline-none focus:ring-2 focus:ring-orange-500 cursor-pointer text-sm"
+                        title="Aggregation"
+                      >
+                        {AGGREGATIONS.map((a) => (
+                          <option key={a.value} value={a.value}>
+                            {a.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {((isAggregated && isXNumeric) ||
+                      chartType === "histogram") && (
+                      <div className="flex items-center gap-1 text-sm">
+                        <input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={binWidth || ""}
+                          placeholder={
+                            chartType === "histogram"
+                              ? `Auto (${effectiveBinWidth})`
+                              : "Bin width"
+                          }
+                          onChange={(e) =>
+                            setBinWidth(Math.max(0, Number(e.target.value)))
+                          }
+                          className="w-24 px-3 py-2 rounded-lg border-2 border-orange-300 bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-orange-500"
+                          title="Bin width (empty for no binning)"
+                        />
+                        <button
+                          onClick={() => {
+                            const column = profile.columns.find(
+                              (c) => c.name === selectedXAxis
+                            );
+                            setBinWidth(
+                              suggestBinWidth(
+                                column?.min ?? 0,
+                                column?.max ?? 0
+                              )
+                            );
+                          }}
+                          className="text-xs font-medium text-orange-700 hover:text-orange-900"
+                          title="Suggest a bin width"
+                        >
+                          Auto
+                        </button>
+                      </div>
+                    )}
                   </div>
+                  {needsSample && (
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <select
+                        value={samplingStrategy}
+                        onChange={(e) =>
+                          setSamplingStrategy(
+                            e.target.value as SamplingStrategy
+                          )
+                        }
+                        className="px-3 py-2 rounded-lg border-2 border-teal-300 bg-white text-gray-800 font-medium focus:outline-none focus:ring-2 focus:ring-teal-500 cursor-pointer text-sm"
+                        title="Sampling strategy"
+                      >
+                        {SAMPLING_STRATEGIES.map((s) => (
+                          <option key={s.value} value={s.value}>
+                            {s.label}
+                          </option>
+                        ))}
+                      </select>
+                      <label className="flex items-center gap-1 text-sm font-medium text-gray-700">
+                        Points
+                        <input
+                          type="number"
+                          min={MIN_POINT_BUDGET}
+                          max={MAX_POINT_BUDGET}
+                          step={10}
+                          value={pointBudget}
+                          onChange={(e) =>
+                            setPointBudget(
+                              Math.min(
+                                MAX_POINT_BUDGET,
+                                Math.max(
+                                  MIN_POINT_BUDGET,
+                                  Math.round(Number(e.target.value))
+                                )
+                              )
+                            )
+                          }
+                          className="w-24 px-3 py-2 rounded-lg border-2 border-teal-300 bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                          title="Maximum number of points to plot"
+                        />
+                      </label>
+                      {samplingStrategy === "stratified" && (
+                        <select
+                          value={stratifyKey}
+                          onChange={(e) => setStratifyKey(e.target.value)}
+                          className="px-3 py-2 rounded-lg border-2 border-teal-300 bg-white text-gray-800 font-medium focus:outline-none focus:ring-2 focus:ring-teal-500 cursor-pointer text-sm"
+                          title="Column to stratify by"
+                        >
+                          <option value="">Stratify by…</option>
+                          {strataKeys.map((key) => (
+                            <option key={key} value={key}>
+                              {key.replace(/_/g, " ")}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      {samplingStrategy === "random" && (
+                        <label className="flex items-center gap-1 text-sm font-medium text-gray-700">
+                          Seed
+                          <input
+                            type="number"
+                            value={samplingSeed}
+                            onChange={(e) =>
+                              setSamplingSeed(
+                                Math.round(Number(e.target.value))
+                              )
+                            }
+                            className="w-20 px-3 py-2 rounded-lg border-2 border-teal-300 bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                            title="Seed for a reproducible random sample"
+                          />
+                        </label>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
-            {data.length > 0 ? (
-              <div className="flex-1 w-full bg-white p-4 rounded-lg shadow-inner border border-gray-200 lg:min-h-[32rem]">
-                <ResponsiveContainer
-                  width="100%"
-                  height="100%"
-                  minWidth={0}
-                  minHeight={400}
-                >
-                  {renderChart}
-                </ResponsiveContainer>
+            {rowCount > 0 ? (
+              <div
+                ref={chartRef}
+                className="flex-1 w-full bg-white p-4 rounded-lg shadow-inner border border-gray-200 lg:min-h-[32rem]"
+              >
+                {renderChart}
               </div>
             ) : (
               <div className="flex-1 text-center p-10 bg-gray-100 rounded-lg text-gray-500 shadow-inner lg:min-h-[32rem] flex items-center justify-center">
-                Upload a CSV file to see the chart.
+                Upload a data file to see the chart.
               </div>
             )}
+            {rowCount > 0 && (
+              <ViewSpecPanel
+                spec={viewSpec}
+                fileName={fileName}
+                issues={specIssues}
+                onLoad={loadViewSpec}
+                onDismissIssues={() => setSpecIssues([])}
+              />
+            )}
+            {rowCount > 0 && (
+              <ExportPanel
+                chartRef={chartRef}
+                rows={chartType === "heatmap" ? profile.correlations : data}
+                profile={profile}
+                insights={aiInsights}
+                chat={chatMessages}
+                fileName={fileName}
+              />
+            )}
+            {rowCount > 0 && (
+              <DataQualityPanel
+                report={qualityReport}
+                records={flaggedRecords}
+                method={outlierMethod}
+                onMethodChange={setOutlierMethod}
+                highlight={highlightOutliers}
+                onHighlightChange={setHighlightOutliers}
+                provider={provider}
+                budget={budget}
+                disabled={!aiReady}
+                onAuthError={() => onAccountChange(null)}
+              />
+            )}
           </div>
 
           <div className="lg:col-span-1 flex flex-col">
@@ -356,26 +1469,27 @@ const AIDashboard = () => {
                 <span className="text-xl mr-2">✨</span>
                 AI Trend Analysis
               </h2>
-              <button
-                onClick={handleFetchAiSummary}
-                disabled={data.length === 0 || aiLoading || !isPasswordValid}
-                className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-200 flex items-center
+              {aiLoading ? (
+                <button
+                  onClick={() => summaryAbortRef.current?.abort()}
+                  className="px-4 py-2 rounded-full text-sm font-semibold transition-all duration-200 flex items-center bg-red-100 text-red-700 hover:bg-red-200 shadow-md"
+                >
+                  <span className="mr-2 animate-spin">🌀</span> Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleFetchAiSummary}
+                  disabled={!aiReady}
+                  className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-200 flex items-center
                   ${
-                    data.length === 0 || aiLoading || !isPasswordValid
+                    !aiReady
                       ? "bg-gray-200 text-gray-500 cursor-not-allowed"
                       : "bg-indigo-600 text-white hover:bg-indigo-700 shadow-md"
                   }`}
-              >
-                {aiLoading ? (
-                  <>
-                    <span className="mr-2 animate-spin">🌀</span> Analyzing...
-                  </>
-                ) : (
-                  <>
-                    <span className="mr-2">✨</span> Generate Summary
-                  </>
-                )}
-              </button>
+                >
+                  <span className="mr-2">✨</span> Generate Summary
+                </button>
+              )}
             </div>
 
             <div className="flex-1 bg-indigo-50 p-6 rounded-lg border border-indigo-200 shadow-md flex flex-col lg:min-h-[8rem]">
@@ -385,68 +1499,66 @@ const AIDashboard = () => {
                   {aiError}
                 </div>
               )}
-              {aiSummary ? (
-                <p className="text-gray-800 whitespace-pre-wrap animate-fade-in">
-                  {aiSummary}
+              {summaryError && (
+                <AiErrorNotice error={summaryError} className="mb-4" />
+              )}
+              {aiReady && !aiLoading && (
+                <div className="mb-3">
+                  <PromptEstimate
+                    tokens={summaryTokens}
+                    budget={budget}
+                    cost={estimateCost(provider, summaryTokens)}
+                    notes={[
+                      ...(budget < promptBudget
+                        ? [`Budget capped at the model's context window.`]
+                        : []),
+                      ...(datasetContext.note ? [datasetContext.note] : []),
+                    ]}
+                  />
+                </div>
+              )}
+              {aiInsights ? (
+                <InsightsCards
+                  insights={aiInsights}
+                  onApplyChart={applyChartSuggestion}
+                />
+              ) : aiLoading ? (
+                <p className="text-gray-500 italic animate-pulse">
+                  Analyzing the data…
                 </p>
               ) : (
-                !aiLoading &&
-                !aiError && (
+                !aiError &&
+                !summaryError && (
                   <p className="text-gray-500 italic">
-                    Click "Generate Summary" to get an AI analysis of your
-                    uploaded data.
+                    {rowCount > 0 && !aiReady
+                      ? "Sign in to use the AI features."
+                      : 'Click "Generate Summary" to get an AI analysis of your uploaded data.'}
                   </p>
                 )
               )}
             </div>
 
-            {/* Custom AI Question Section */}
-            <div className="mt-4 flex-1 bg-indigo-50 p-6 rounded-lg border border-indigo-200 shadow-md flex flex-col lg:min-h-[24rem]">
-              <h3 className="text-lg font-semibold text-gray-800 mb-3 flex items-center">
-                <span className="text-lg mr-2">💬</span>
-                Ask a Custom Question
-              </h3>
-              <textarea
-                value={question}
-                onChange={(e) => setQuestion(e.target.value)}
-                placeholder="Ask anything about your data... (e.g., 'What patterns do you see?')"
-                className="w-full px-4 py-3 border-2 border-indigo-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all duration-200 resize-none text-gray-900 placeholder-gray-400 mb-3"
-                rows={3}
-              />
-              <button
-                onClick={handleAskQuestion}
-                disabled={
-                  !question.trim() ||
-                  data.length === 0 ||
-                  questionLoading ||
-                  !isPasswordValid
-                }
-                className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-200 flex items-center justify-center mb-3
-                  ${
-                    !question.trim() ||
-                    data.length === 0 ||
-                    questionLoading ||
-                    !isPasswordValid
-                      ? "bg-gray-200 text-gray-500 cursor-not-allowed"
-                      : "bg-indigo-600 text-white hover:bg-indigo-700 shadow-md"
-                  }`}
-              >
-                {questionLoading ? (
-                  <>
-                    <span className="mr-2 animate-spin">🌀</span> Thinking...
-                  </>
-                ) : (
-                  <>
-                    <span className="mr-2">🤔</span> Ask Question
-                  </>
-                )}
-              </button>
-              {answer && (
-                <div className="bg-white p-4 rounded-lg border border-indigo-300 mt-2 animate-fade-in">
-                  <p className="text-gray-800 whitespace-pre-wrap">{answer}</p>
-                </div>
-              )}
-            </div>
+            <ShowMePanel
+              provider={provider}
+              context={datasetContext}
+              schema={chartSchema}
+              current={viewSettings}
+              disabled={!aiReady}
+              onApply={loadViewSpec}
+              onAuthError={() => onAccountChange(null)}
+            />
+
+            {/* Custom AI Question Section, remounted per session and dataset
+                so a reply still streaming stops with the thread it belongs to */}
+            <ChatPanel
+              key={`${currentSession?.id}:${activeDatasetId}`}
+              messages={chatMessages}
+              setMessages={setChatMessages}
+              provider={provider}
+              context={datasetContext}
+              disabled={!aiReady}
+              onAuthError={() => onAccountChange(null)}
+            />
           </div>
         </div>
       </div>
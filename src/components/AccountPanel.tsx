@@ -0,0 +1,98 @@
+import { useState } from "react";
+import {
+  apiErrorMessage,
+  signIn,
+  signOut,
+  type Account,
+} from "../helpers/auth";
+
+type Props = {
+  account: Account | null;
+  onChange: (account: Account | null) => void;
+};
+
+/**
+ * Sign-in against the AI proxy. Credentials are checked on the server, the
+ * browser only keeps the session token it hands out
+ */
+const AccountPanel = ({ account, onChange }: Props) => {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSignIn = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      onChange(await signIn(username.trim(), password));
+      setPassword("");
+    } catch (err) {
+      setError(apiErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (err) {
+      console.error("Sign out failed:", err);
+    }
+    onChange(null);
+  };
+
+  if (account) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <span>
+          👤 <span className="font-medium">{account.user}</span>
+        </span>
+        <button
+          onClick={handleSignOut}
+          className="px-3 py-1.5 rounded-full text-xs font-semibold bg-white border border-gray-300 text-gray-600 hover:bg-gray-50"
+        >
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="flex items-center gap-2 flex-wrap"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSignIn();
+      }}
+    >
+      <input
+        type="text"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        placeholder="Username"
+        autoComplete="username"
+        className="px-3 py-2 border-2 border-gray-300 rounded-lg text-sm w-32 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        autoComplete="current-password"
+        className="px-3 py-2 border-2 border-gray-300 rounded-lg text-sm w-32 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      <button
+        type="submit"
+        disabled={busy || !username.trim() || !password}
+        className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-200 disabled:text-gray-500"
+      >
+        {busy ? "Signing in…" : "Sign in"}
+      </button>
+      {error && <span className="w-full text-xs text-red-700">{error}</span>}
+    </form>
+  );
+};
+
+export default AccountPanel;
@@ -0,0 +1,24 @@
+import type { AiErrorDescription } from "../helpers/aiErrors";
+
+type Props = {
+  error: AiErrorDescription;
+  className?: string;
+};
+
+// A failed AI call: what happened, the server's details and what to try
+const AiErrorNotice = ({ error, className = "" }: Props) => {
+  return (
+    <div
+      className={`bg-red-100 border border-red-400 text-red-700 p-3 rounded flex items-start ${className}`}
+    >
+      <span className="text-xl mr-2">⚠️</span>
+      <div>
+        <p className="font-semibold">{error.title}</p>
+        {error.detail && <p className="text-sm mt-0.5">{error.detail}</p>}
+        <p className="text-sm mt-1">💡 {error.remedy}</p>
+      </div>
+    </div>
+  );
+};
+
+export default AiErrorNotice;
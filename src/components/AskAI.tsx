@@ -1,78 +1,132 @@
-import { useState } from "react";
-import axios from "axios";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { refineMessage } from "../helpers/apis";
+import {
+  describeAiError,
+  toAiError,
+  type AiErrorDescription,
+} from "../helpers/aiErrors";
+import type { Account } from "../helpers/auth";
+import { isAbortError, type ProviderConfig } from "../helpers/providers";
+import { TONES, type MessageRefinement, type Tone } from "../helpers/refine";
+import { applyDiff, diffWords } from "../helpers/textDiff";
+import AccountPanel from "./AccountPanel";
+import AiErrorNotice from "./AiErrorNotice";
+import ProviderSettings from "./ProviderSettings";
 
-const AskAI = () => {
+type Props = {
+  account: Account | null;
+  onAccountChange: (account: Account | null) => void;
+  provider: ProviderConfig;
+  onProviderChange: (provider: ProviderConfig) => void;
+};
+
+const CopyButton = ({ text, ring }: { text: string; ring: string }) => {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      type="button"
+      onClick={async () => {
+        try {
+          await navigator.clipboard.writeText(text);
+          setCopied(true);
+          setTimeout(() => setCopied(false), 1200);
+        } catch (e) {
+          console.error("Copy failed", e);
+        }
+      }}
+      disabled={!text}
+      className={`inline-flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:border-gray-400 focus:outline-none focus:ring-2 ${ring} focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200`}
+      aria-label="Copy to clipboard"
+    >
+      <svg
+        className="w-3.5 h-3.5"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+        />
+      </svg>
+      {copied ? "Copied!" : "Copy"}
+    </button>
+  );
+};
+
+// Reviews a message and proposes a rewrite, accepted change by change
+const AskAI = ({
+  account,
+  onAccountChange,
+  provider,
+  onProviderChange,
+}: Props) => {
   const [input, setInput] = useState("");
-  const [issues, setIssues] = useState("");
-  const [advice, setAdvice] = useState("");
+  const [tone, setTone] = useState<Tone>("friendly");
+  const [refinement, setRefinement] = useState<MessageRefinement | null>(null);
+  // The message the rewrite was made from, the input may change since
+  const [original, setOriginal] = useState("");
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
   const [loading, setLoading] = useState(false);
-  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<AiErrorDescription | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const askAI = async () => {
-    if (!input.trim()) return;
-    try {
-      setLoading(true);
-      setIssues("");
-      setAdvice("");
-      const res = await axios.post(
-        "https://api.openai.com/v1/chat/completions",
-        {
-          model: "gpt-4o-mini",
-          messages: [
-            {
-              role: "system",
-              content:
-                "You are a precise validator that reviews messages for completeness, tone, and clarity.",
-            },
-            {
-              role: "user",
-              content: `Validate this user message and respond in JSON:
-    {
-      "issues": [list of problems found],
-      "advice": "how to fix or improve"
-    }
-    Message: ${input}`,
-            },
-          ],
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${import.meta.env.VITE_OPENAI_KEY}`,
-          },
-        }
-      );
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-      const content = res.data.choices[0].message.content || "";
+  const aiReady = provider.id === "mock" || !!account;
 
-      try {
-        // Remove markdown code blocks if present
-        const cleanedContent = content
-          .replace(/```json\n?/g, "")
-          .replace(/```\n?/g, "")
-          .trim();
+  const chunks = useMemo(
+    () => (refinement ? diffWords(original, refinement.rewrite) : []),
+    [original, refinement]
+  );
+  const changeIds = chunks.flatMap((c) => (c.kind === "change" ? [c.id] : []));
+  const result = applyDiff(chunks, rejected);
 
-        const parsed = JSON.parse(cleanedContent);
-        if (parsed.issues && Array.isArray(parsed.issues)) {
-          setIssues(parsed.issues.join("\n• "));
-        }
-        if (parsed.advice) {
-          setAdvice(parsed.advice);
-        }
-      } catch (parseError) {
-        console.error("Failed to parse JSON response:", parseError);
-        console.error("Raw content:", content);
-        setIssues("Unable to parse response");
-        setAdvice("Please try again");
-      }
+  const refine = async () => {
+    if (!input.trim()) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setRefinement(null);
+    setRejected(new Set());
+    setError(null);
+
+    try {
+      setRefinement(
+        await refineMessage(provider, input, tone, {
+          signal: controller.signal,
+        })
+      );
+      setOriginal(input);
     } catch (err) {
-      console.error(err);
-      setIssues("Error occurred");
-      setAdvice("Please try again");
+      if (!isAbortError(err)) {
+        console.error(err);
+        setError(describeAiError(err));
+        if (toAiError(err).kind === "auth") onAccountChange(null);
+      }
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const toggleChange = (id: number) =>
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  // The result becomes the new draft, ready for another pass
+  const handleUseResult = () => {
+    setInput(result);
+    setRefinement(null);
+    setRejected(new Set());
+  };
+
   return (
     <main className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 flex items-center justify-center p-4">
       <div className="w-full max-w-2xl bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6 sm:p-8 space-y-6">
@@ -98,15 +152,20 @@ const AskAI = () => {
             Refine with AI
           </h1>
           <p className="text-gray-600 text-sm sm:text-base">
-            Polish your message with concise, constructive feedback.
+            Polish your message with concise, constructive feedback and a
+            rewrite you can accept change by change.
           </p>
+          <div className="flex flex-col items-center gap-2 pt-2">
+            <AccountPanel account={account} onChange={onAccountChange} />
+            <ProviderSettings value={provider} onChange={onProviderChange} />
+          </div>
         </header>
 
         <form
           className="space-y-6"
           onSubmit={(e) => {
             e.preventDefault();
-            askAI();
+            refine();
           }}
         >
           <div className="space-y-2">
@@ -128,11 +187,34 @@ const AskAI = () => {
             />
           </div>
 
+          <fieldset className="flex flex-wrap items-center justify-center gap-2">
+            <legend className="sr-only">Tone</legend>
+            <span className="text-sm font-semibold text-gray-700 mr-1">
+              Tone
+            </span>
+            {TONES.map((t) => (
+              <button
+                key={t.value}
+                type="button"
+                onClick={() => setTone(t.value)}
+                aria-pressed={tone === t.value}
+                title={t.instruction}
+                className={`px-4 py-1.5 rounded-full text-sm font-medium border transition-all duration-200 ${
+                  tone === t.value
+                    ? "bg-indigo-600 text-white border-indigo-600 shadow"
+                    : "bg-white text-gray-700 border-gray-300 hover:border-indigo-400"
+                }`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </fieldset>
+
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
             <button
               type="submit"
               className="w-full sm:w-auto bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white font-semibold py-3 px-6 rounded-xl shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none flex items-center justify-center gap-2"
-              disabled={loading || !input.trim()}
+              disabled={loading || !input.trim() || !aiReady}
             >
               {loading ? (
                 <>
@@ -159,112 +241,154 @@ const AskAI = () => {
               )}
             </button>
           </div>
+          {!aiReady && (
+            <p className="text-center text-sm text-gray-500">
+              Sign in to use the AI features.
+            </p>
+          )}
         </form>
 
-        {/* Issues Section */}
-        {issues.length > 0 && (
+        {error && <AiErrorNotice error={error} />}
+
+        {refinement && refinement.issues.length > 0 && (
           <div className="space-y-2">
             <div className="flex items-center justify-between">
-              <label
-                htmlFor="issues"
-                className="block text-sm font-semibold text-red-700"
-              >
+              <h2 className="text-sm font-semibold text-red-700">
                 ⚠️ List of detected problems
-              </label>
-              <button
-                type="button"
-                onClick={async () => {
-                  try {
-                    await navigator.clipboard.writeText(issues || "");
-                    setCopied(true);
-                    setTimeout(() => setCopied(false), 1200);
-                  } catch (e) {
-                    console.error("Copy failed", e);
-                  }
-                }}
-                disabled={!issues}
-                className="inline-flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-                aria-label="Copy issues to clipboard"
-              >
-                <svg
-                  className="w-3.5 h-3.5"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-                  />
-                </svg>
-                {copied ? "Copied!" : "Copy"}
-              </button>
+              </h2>
+              <CopyButton
+                text={refinement.issues.join("\n")}
+                ring="focus:ring-red-500"
+              />
             </div>
-            <textarea
-              id="issues"
-              className="w-full px-4 py-3 border-2 border-red-200 rounded-xl bg-red-50 text-red-800 focus:ring-2 focus:ring-red-500 focus:border-red-500 outline-none transition-all duration-200 resize-none"
-              value={issues}
-              readOnly
-              placeholder="Issues found in your message will appear here."
-              rows={3}
-            />
+            <ul className="list-disc list-inside px-4 py-3 border-2 border-red-200 rounded-xl bg-red-50 text-red-800 text-sm space-y-1">
+              {refinement.issues.map((issue, i) => (
+                <li key={i}>{issue}</li>
+              ))}
+            </ul>
           </div>
         )}
 
-        {/* Advice Section */}
-        {issues.length > 0 ? (
+        {refinement && refinement.advice && (
           <div className="space-y-2">
             <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-green-700">
+                💡 Advice for improvement
+              </h2>
+              <CopyButton
+                text={refinement.advice}
+                ring="focus:ring-green-500"
+              />
+            </div>
+            <p className="px-4 py-3 border-2 border-green-200 rounded-xl bg-green-50 text-green-800 text-sm whitespace-pre-wrap">
+              {refinement.advice}
+            </p>
+          </div>
+        )}
+
+        {refinement && refinement.issues.length === 0 && (
+          <div>✅ No issues found</div>
+        )}
+
+        {refinement && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-sm font-semibold text-indigo-700">
+                ✨ Suggested rewrite
+                <span className="ml-2 font-normal text-gray-500">
+                  {changeIds.length === 0
+                    ? "no changes"
+                    : `${changeIds.length - rejected.size} of ${changeIds.length} changes accepted`}
+                </span>
+              </h2>
+              {changeIds.length > 0 && (
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setRejected(new Set())}
+                    className="px-3 py-1.5 text-xs font-medium text-green-700 bg-white border border-green-300 rounded-lg hover:bg-green-50"
+                  >
+                    Accept all
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRejected(new Set(changeIds))}
+                    className="px-3 py-1.5 text-xs font-medium text-red-700 bg-white border border-red-300 rounded-lg hover:bg-red-50"
+                  >
+                    Reject all
+                  </button>
+                </div>
+              )}
+            </div>
+            <p className="px-4 py-3 border-2 border-indigo-200 rounded-xl bg-white text-gray-900 text-sm leading-relaxed whitespace-pre-wrap">
+              {chunks.map((chunk, i) => {
+                if (chunk.kind === "same")
+                  return <span key={i}>{chunk.text}</span>;
+                const accepted = !rejected.has(chunk.id);
+                return (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => toggleChange(chunk.id)}
+                    title={accepted ? "Click to reject" : "Click to accept"}
+                    className="inline rounded px-0.5 hover:ring-2 hover:ring-indigo-300 whitespace-pre-wrap text-left"
+                  >
+                    {chunk.removed && (
+                      <del
+                        className={
+                          accepted
+                            ? "text-red-400 bg-red-50"
+                            : "no-underline bg-amber-100 text-gray-900"
+                        }
+                      >
+                        {chunk.removed}
+                      </del>
+                    )}
+                    {chunk.added && (
+                      <ins
+                        className={
+                          accepted
+                            ? "no-underline bg-green-100 text-green-800"
+                            : "line-through text-gray-400"
+                        }
+                      >
+                        {chunk.added}
+                      </ins>
+                    )}
+                  </button>
+                );
+              })}
+            </p>
+            <p className="text-xs text-gray-500">
+              Click a change to accept or reject it.
+            </p>
+
+            <div className="flex items-center justify-between pt-2">
               <label
-                htmlFor="advice"
-                className="block text-sm font-semibold text-green-700"
+                htmlFor="result"
+                className="block text-sm font-semibold text-gray-700"
               >
-                💡 Advice for improvement
+                Result
               </label>
-              <button
-                type="button"
-                onClick={async () => {
-                  try {
-                    await navigator.clipboard.writeText(advice || "");
-                    setCopied(true);
-                    setTimeout(() => setCopied(false), 1200);
-                  } catch (e) {
-                    console.error("Copy failed", e);
-                  }
-                }}
-                disabled={!advice}
-                className="inline-flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-                aria-label="Copy advice to clipboard"
-              >
-                <svg
-                  className="w-3.5 h-3.5"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleUseResult}
+                  className="px-3 py-1.5 text-xs font-medium text-indigo-700 bg-white border border-indigo-300 rounded-lg hover:bg-indigo-50"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-                  />
-                </svg>
-                {copied ? "Copied!" : "Copy"}
-              </button>
+                  Use as my message
+                </button>
+                <CopyButton text={result} ring="focus:ring-indigo-500" />
+              </div>
             </div>
             <textarea
-              id="advice"
-              className="w-full px-4 py-3 border-2 border-green-200 rounded-xl bg-green-50 text-green-800 focus:ring-2 focus:ring-green-500 focus:border-green-500 outline-none transition-all duration-200 resize-none"
-              value={advice}
+              id="result"
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl bg-gray-50 text-gray-900 outline-none resize-none"
+              value={result}
               readOnly
-              placeholder="Improvement advice will appear here."
-              rows={3}
+              rows={5}
             />
           </div>
-        ) : input.length === 0 ? null : (
-          <div>✅ No issues found</div>
         )}
       </div>
     </main>
@@ -0,0 +1,540 @@
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { BoxStats } from "../helpers/aggregate";
+import { isOutside, type Bounds } from "../helpers/anomalies";
+import type { ChartType } from "../helpers/charts";
+import type { DatasetProfile } from "../helpers/profile";
+import { isNumericType } from "../helpers/schema";
+
+type TrendLine = { slope: number; intercept: number };
+
+type Row = Record<string, string | number>;
+
+// Outliers to mark: bounds per plotted column, and for scatter charts the
+// flagged rows themselves so sampling can't hide them
+export type ChartOutliers = { bounds: Record<string, Bounds>; rows: Row[] };
+
+type Props = {
+  chartType: ChartType;
+  data: Record<string, string | number>[];
+  xKey: string;
+  // One series per key; single-series chart types use the first one
+  yKeys: string[];
+  // Series plotted against the right-hand axis
+  rightAxisKeys: string[];
+  seriesLabels: Record<string, string>;
+  profile: DatasetProfile;
+  trendLines: Record<string, TrendLine | null>;
+  donut: boolean;
+  outliers: ChartOutliers | null;
+};
+
+const PALETTE = [
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#f59e0b",
+  "#10b981",
+  "#06b6d4",
+  "#ef4444",
+  "#6366f1",
+  "#84cc16",
+  "#a855f7",
+];
+
+const OUTLIER_COLOR = "#dc2626";
+
+const label = (key: string) => key.replace(/_/g, " ");
+
+// Scatter series carry their Y value under this key so both axes can share it
+const SCATTER_Y = "__y";
+
+// Shared X/Y axes and tooltip for the cartesian charts. The right axis is
+// only rendered when some series are assigned to it
+const renderAxes = (
+  xKey: string,
+  xLabel: string,
+  leftLabel: string,
+  rightLabel: string | null,
+  scatter: boolean = false
+) => (
+  <>
+    <XAxis
+      dataKey={xKey}
+      type={scatter ? "number" : "category"}
+      domain={scatter ? ["auto", "auto"] : undefined}
+      name={xLabel}
+      stroke="#6366f1"
+      height={70}
+      label={{
+        value: xLabel,
+        position: "insideBottom",
+        offset: 0,
+        className: "hidden lg:block",
+      }}
+    />
+    <YAxis
+      yAxisId="left"
+      dataKey={scatter ? SCATTER_Y : undefined}
+      type="number"
+      domain={scatter ? ["auto", "auto"] : undefined}
+      stroke="#6366f1"
+      width={80}
+      className="hidden lg:block"
+      label={{
+        value: leftLabel,
+        angle: -90,
+        position: "insideLeft",
+        className: "hidden lg:block",
+      }}
+    />
+    <YAxis
+      yAxisId="left"
+      dataKey={scatter ? SCATTER_Y : undefined}
+      type="number"
+      domain={scatter ? ["auto", "auto"] : undefined}
+      stroke="#6366f1"
+      width={20}
+      className="lg:hidden"
+    />
+    {rightLabel !== null && (
+      <YAxis
+        yAxisId="right"
+        orientation="right"
+        dataKey={scatter ? SCATTER_Y : undefined}
+        type="number"
+        domain={scatter ? ["auto", "auto"] : undefined}
+        stroke="#ec4899"
+        width={80}
+        label={{
+          value: rightLabel,
+          angle: 90,
+          position: "insideRight",
+          className: "hidden lg:block",
+        }}
+      />
+    )}
+    <Tooltip
+      formatter={(value, name) => [value, name]}
+      labelFormatter={(value) => `${xLabel}: ${value}`}
+    />
+  </>
+);
+
+type BoxShapeProps = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: BoxStats;
+};
+
+// Draws whiskers, the interquartile box and the median inside the [min, max] bar
+const BoxShape = (props: unknown) => {
+  const { x, y, width, height, payload } = props as BoxShapeProps;
+  const { min, q1, median, q3, max } = payload;
+  const toPixel = (value: number) =>
+    max === min ? y + height / 2 : y + (height * (max - value)) / (max - min);
+  const center = x + width / 2;
+  const boxWidth = Math.min(width, 60);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke="#6366f1" />
+      {[min, max].map((value) => (
+        <line
+          key={value}
+          x1={center - boxWidth / 4}
+          x2={center + boxWidth / 4}
+          y1={toPixel(value)}
+          y2={toPixel(value)}
+          stroke="#6366f1"
+        />
+      ))}
+      <rect
+        x={center - boxWidth / 2}
+        y={toPixel(q3)}
+        width={boxWidth}
+        height={Math.max(1, toPixel(q1) - toPixel(q3))}
+        fill="#c7d2fe"
+        stroke="#6366f1"
+      />
+      <line
+        x1={center - boxWidth / 2}
+        x2={center + boxWidth / 2}
+        y1={toPixel(median)}
+        y2={toPixel(median)}
+        stroke="#4338ca"
+        strokeWidth={2}
+      />
+    </g>
+  );
+};
+
+const BoxTooltip = ({
+  active,
+  payload,
+}: {
+  active?: boolean;
+  payload?: { payload: BoxStats }[];
+}) => {
+  if (!active || !payload?.length) return null;
+  const stats = payload[0].payload;
+
+  return (
+    <div className="bg-white border border-gray-300 rounded p-2 text-xs shadow">
+      <div className="font-semibold mb-1">
+        {stats.group} (n={stats.count})
+      </div>
+      {(["max", "q3", "median", "q1", "min"] as const).map((key) => (
+        <div key={key}>
+          {key}: {stats[key]}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Diverging colour scale: blue for negative, red for positive correlation
+const heatColor = (r: number) =>
+  r >= 0
+    ? `rgba(239, 68, 68, ${Math.abs(r)})`
+    : `rgba(59, 130, 246, ${Math.abs(r)})`;
+
+const Heatmap = ({ profile }: { profile: DatasetProfile }) => {
+  const columns = profile.columns
+    .filter((c) => isNumericType(c.type))
+    .map((c) => c.name);
+
+  if (columns.length < 2) {
+    return (
+      <div className="h-full flex items-center justify-center text-gray-500">
+        At least two numeric columns are needed for a correlation heatmap.
+      </div>
+    );
+  }
+
+  const lookup = new Map<string, number>();
+  profile.correlations.forEach(({ a, b, r }) => {
+    lookup.set(`${a}|${b}`, r);
+    lookup.set(`${b}|${a}`, r);
+  });
+
+  return (
+    <div className="overflow-auto h-full">
+      <table className="text-xs border-collapse mx-auto">
+        <thead>
+          <tr>
+            <th />
+            {columns.map((col) => (
+              <th
+                key={col}
+                className="p-1 font-medium text-gray-600 align-bottom"
+              >
+                <div className="[writing-mode:vertical-rl] rotate-180 max-h-32 truncate">
+                  {label(col)}
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {columns.map((row) => (
+            <tr key={row}>
+              <th className="p-1 pr-2 font-medium text-gray-600 text-right whitespace-nowrap">
+                {label(row)}
+              </th>
+              {columns.map((col) => {
+                const r = row === col ? 1 : lookup.get(`${row}|${col}`);
+                return (
+                  <td
+                    key={col}
+                    className="w-12 h-12 text-center border border-white text-gray-900"
+                    style={{
+                      backgroundColor:
+                        r === undefined ? "#f3f4f6" : heatColor(r),
+                    }}
+                    title={`${label(row)} × ${label(col)}`}
+                  >
+                    {r === undefined ? "–" : r.toFixed(2)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const ChartView = ({
+  chartType,
+  data,
+  xKey,
+  yKeys,
+  rightAxisKeys,
+  seriesLabels,
+  profile,
+  trendLines,
+  donut,
+  outliers,
+}: Props) => {
+  if (chartType === "heatmap") return <Heatmap profile={profile} />;
+
+  const xLabel = label(xKey);
+  const yKey = yKeys[0] ?? "";
+  const yLabel = seriesLabels[yKey] ?? label(yKey);
+
+  const axisOf = (key: string) =>
+    rightAxisKeys.includes(key) ? "right" : "left";
+  const axisLabel = (axis: "left" | "right") =>
+    yKeys
+      .filter((key) => axisOf(key) === axis)
+      .map((key) => seriesLabels[key])
+      .join(", ");
+  const rightLabel = yKeys.some((key) => axisOf(key) === "right")
+    ? axisLabel("right")
+    : null;
+  const axes = (scatter?: boolean) =>
+    renderAxes(xKey, xLabel, axisLabel("left"), rightLabel, scatter);
+  const legend = yKeys.length > 1 && <Legend verticalAlign="top" />;
+  const isOutlier = (key: string, value: unknown) =>
+    isOutside(value, outliers?.bounds[key]);
+
+  const renderChart = () => {
+    switch (chartType) {
+      case "bar":
+        return (
+          <BarChart data={data}>
+            {axes()}
+            {legend}
+            {yKeys.map((key, index) => (
+              <Bar
+                key={key}
+                dataKey={key}
+                yAxisId={axisOf(key)}
+                fill={PALETTE[index % PALETTE.length]}
+                name={seriesLabels[key]}
+                radius={[4, 4, 0, 0]}
+              >
+                {outliers &&
+                  data.map((row, i) => (
+                    <Cell
+                      key={i}
+                      fill={
+                        isOutlier(key, row[key])
+                          ? OUTLIER_COLOR
+                          : PALETTE[index % PALETTE.length]
+                      }
+                    />
+                  ))}
+              </Bar>
+            ))}
+          </BarChart>
+        );
+
+      case "line":
+        return (
+          <LineChart data={data}>
+            {axes()}
+            {legend}
+            {yKeys.map((key, index) => {
+              const color = PALETTE[(index + 1) % PALETTE.length];
+              return (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  yAxisId={axisOf(key)}
+                  stroke={color}
+                  strokeWidth={2}
+                  name={seriesLabels[key]}
+                  dot={(props: {
+                    cx?: number;
+                    cy?: number;
+                    index?: number;
+                    payload?: Row;
+                  }) => {
+                    const flagged = isOutlier(key, props.payload?.[key]);
+                    return (
+                      <circle
+                        key={props.index}
+                        cx={props.cx}
+                        cy={props.cy}
+                        r={flagged ? 6 : 4}
+                        fill={flagged ? OUTLIER_COLOR : color}
+                      />
+                    );
+                  }}
+                  activeDot={{ r: 6 }}
+                />
+              );
+            })}
+          </LineChart>
+        );
+
+      case "area":
+        return (
+          <AreaChart data={data}>
+            {axes()}
+            {legend}
+            {yKeys.map((key, index) => {
+              const color = PALETTE[(index + 1) % PALETTE.length];
+              return (
+                <Area
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  yAxisId={axisOf(key)}
+                  // Series stack per axis, mixing scales would be meaningless
+                  stackId={axisOf(key)}
+                  stroke={color}
+                  fill={color}
+                  fillOpacity={0.4}
+                  name={seriesLabels[key]}
+                />
+              );
+            })}
+          </AreaChart>
+        );
+
+      case "scatter": {
+        const xs = data
+          .map((row) => row[xKey])
+          .filter((v): v is number => typeof v === "number");
+        const [minX, maxX] = xs.reduce(
+          ([min, max], x) => [Math.min(min, x), Math.max(max, x)],
+          [Infinity, -Infinity]
+        );
+
+        return (
+          <ScatterChart>
+            {axes(true)}
+            {legend}
+            {yKeys.map((key, index) => (
+              <Scatter
+                key={key}
+                data={data.map((row) => ({ ...row, [SCATTER_Y]: row[key] }))}
+                yAxisId={axisOf(key)}
+                name={seriesLabels[key]}
+                fill={PALETTE[(index + 1) % PALETTE.length]}
+              />
+            ))}
+            {outliers &&
+              yKeys.map((key) => (
+                <Scatter
+                  key={`outliers-${key}`}
+                  data={outliers.rows
+                    .filter(
+                      (row) =>
+                        isOutlier(key, row[key]) || isOutlier(xKey, row[xKey])
+                    )
+                    .map((row) => ({ ...row, [SCATTER_Y]: row[key] }))}
+                  yAxisId={axisOf(key)}
+                  name={`Outliers: ${seriesLabels[key]}`}
+                  fill={OUTLIER_COLOR}
+                  shape="diamond"
+                />
+              ))}
+            {yKeys.map((key, index) => {
+              const trend = trendLines[key];
+              if (!trend || xs.length < 2) return null;
+              return (
+                <ReferenceLine
+                  key={`trend-${key}`}
+                  yAxisId={axisOf(key)}
+                  segment={[
+                    { x: minX, y: trend.slope * minX + trend.intercept },
+                    { x: maxX, y: trend.slope * maxX + trend.intercept },
+                  ]}
+                  stroke={PALETTE[(index + 1) % PALETTE.length]}
+                  strokeDasharray="6 4"
+                  ifOverflow="extendDomain"
+                />
+              );
+            })}
+          </ScatterChart>
+        );
+      }
+
+      case "pie":
+        return (
+          <PieChart>
+            <Pie
+              data={data}
+              dataKey={yKey}
+              nameKey={xKey}
+              innerRadius={donut ? "50%" : 0}
+              outerRadius="80%"
+              label
+            >
+              {data.map((_, index) => (
+                <Cell key={index} fill={PALETTE[index % PALETTE.length]} />
+              ))}
+            </Pie>
+            <Tooltip />
+            <Legend />
+          </PieChart>
+        );
+
+      case "histogram":
+        return (
+          <BarChart data={data} barCategoryGap={0}>
+            {renderAxes("bin", xLabel, "Count", null)}
+            <Bar
+              dataKey="count"
+              yAxisId="left"
+              fill="#3b82f6"
+              stroke="#fff"
+              name="Count"
+            />
+          </BarChart>
+        );
+
+      case "box":
+        return (
+          <BarChart data={data}>
+            <XAxis dataKey="group" stroke="#6366f1" height={70} />
+            <YAxis stroke="#6366f1" width={80} domain={["auto", "auto"]} />
+            <Tooltip content={<BoxTooltip />} />
+            <Bar
+              dataKey={(row: BoxStats) => [row.min, row.max]}
+              shape={BoxShape}
+              name={yLabel}
+            />
+          </BarChart>
+        );
+    }
+  };
+
+  return (
+    <ResponsiveContainer
+      width="100%"
+      height="100%"
+      minWidth={0}
+      minHeight={400}
+    >
+      {renderChart()}
+    </ResponsiveContainer>
+  );
+};
+
+export default ChartView;
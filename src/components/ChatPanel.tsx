@@ -0,0 +1,284 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  describeAiError,
+  toAiError,
+  type AiErrorDescription,
+} from "../helpers/aiErrors";
+import { askAiQuestion } from "../helpers/apis";
+import {
+  estimateCost,
+  messagesTokens,
+  questionMessages,
+  type DatasetContext,
+} from "../helpers/prompts";
+import {
+  isAbortError,
+  type ChatMessage,
+  type ProviderConfig,
+} from "../helpers/providers";
+import AiErrorNotice from "./AiErrorNotice";
+import PromptEstimate from "./PromptEstimate";
+
+type Props = {
+  messages: ChatMessage[];
+  setMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  provider: ProviderConfig;
+  // The dataset fitted to the token budget
+  context: DatasetContext;
+  disabled: boolean;
+  // Called when the server no longer accepts the session
+  onAuthError: () => void;
+};
+
+/**
+ * Appends a streamed token to the reply, the assistant message at index
+ * `reply`. A thread replaced under the stream is returned unchanged
+ */
+const appendToLast = (
+  messages: ChatMessage[],
+  token: string,
+  reply: number
+) => {
+  const last = messages[messages.length - 1];
+  if (messages.length !== reply + 1 || last?.role !== "assistant") {
+    return messages;
+  }
+  return [...messages.slice(0, -1), { ...last, content: last.content + token }];
+};
+
+const ChatPanel = ({
+  messages,
+  setMessages,
+  provider,
+  context,
+  disabled,
+  onAuthError,
+}: Props) => {
+  const [question, setQuestion] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AiErrorDescription | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editText, setEditText] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+  const threadEndRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: "nearest" });
+  }, [messages]);
+
+  // Sends the conversation and streams the reply into a new assistant turn
+  const run = async (history: ChatMessage[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessages([...history, { role: "assistant", content: "" }]);
+    setLoading(true);
+    setError(null);
+
+    try {
+      await askAiQuestion(provider, history, context, {
+        signal: controller.signal,
+        onToken: (token) => {
+          // A chunk read before a clear still arrives
+          if (controller.signal.aborted) return;
+          setMessages((prev) => appendToLast(prev, token, history.length));
+        },
+      });
+    } catch (e) {
+      // Stopping keeps whatever was streamed so far
+      if (!isAbortError(e)) {
+        console.error("Question API Error:", e);
+        setMessages(history);
+        setError(describeAiError(e));
+        if (toAiError(e).kind === "auth") onAuthError();
+      }
+    } finally {
+      abortRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const handleAsk = () => {
+    if (!question.trim() || loading || disabled) return;
+    run([...messages, { role: "user", content: question.trim() }]);
+    setQuestion("");
+  };
+
+  const handleResend = (index: number) => {
+    if (!editText.trim()) return;
+    setEditingIndex(null);
+    run([...messages.slice(0, index), { role: "user", content: editText }]);
+  };
+
+  const handleRegenerate = () => {
+    const lastUser = messages.map((m) => m.role).lastIndexOf("user");
+    if (lastUser === -1) return;
+    run(messages.slice(0, lastUser + 1));
+  };
+
+  const handleClear = () => {
+    abortRef.current?.abort();
+    setMessages([]);
+    setError(null);
+    setEditingIndex(null);
+  };
+
+  const lastIndex = messages.length - 1;
+
+  // What asking the typed question would send
+  const next = questionMessages(context, [
+    ...messages,
+    { role: "user", content: question.trim() },
+  ]);
+  const nextTokens = messagesTokens(next.messages);
+
+  return (
+    <div className="mt-4 flex-1 bg-indigo-50 p-6 rounded-lg border border-indigo-200 shadow-md flex flex-col lg:min-h-[24rem]">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+          <span className="text-lg mr-2">💬</span>
+          Ask a Custom Question
+        </h3>
+        {messages.length > 0 && (
+          <button
+            onClick={handleClear}
+            className="text-xs font-medium text-gray-600 hover:text-red-600 transition-colors"
+          >
+            🗑️ Clear conversation
+          </button>
+        )}
+      </div>
+
+      {messages.length > 0 && (
+        <div className="flex-1 space-y-3 mb-3 max-h-96 overflow-y-auto pr-1">
+          {messages.map((message, index) =>
+            message.role === "user" ? (
+              <div key={index} className="flex flex-col items-end">
+                {editingIndex === index ? (
+                  <div className="w-full">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      className="w-full px-3 py-2 border-2 border-indigo-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none resize-none text-gray-900 text-sm"
+                      rows={2}
+                    />
+                    <div className="flex justify-end gap-2 mt-1">
+                      <button
+                        onClick={() => setEditingIndex(null)}
+                        className="text-xs text-gray-600 hover:text-gray-800"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleResend(index)}
+                        disabled={!editText.trim()}
+                        className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                      >
+                        Resend
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="max-w-[85%] bg-indigo-600 text-white px-4 py-2 rounded-2xl rounded-br-sm whitespace-pre-wrap text-sm">
+                      {message.content}
+                    </div>
+                    {!loading && (
+                      <button
+                        onClick={() => {
+                          setEditingIndex(index);
+                          setEditText(message.content);
+                        }}
+                        className="text-xs text-gray-500 hover:text-indigo-600 mt-1"
+                      >
+                        ✏️ Edit
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            ) : (
+              <div key={index} className="flex flex-col items-start">
+                <div className="max-w-[85%] bg-white border border-indigo-300 px-4 py-2 rounded-2xl rounded-bl-sm text-gray-800 whitespace-pre-wrap text-sm animate-fade-in">
+                  {message.content}
+                  {loading && index === lastIndex && (
+                    <span className="inline-block w-2 h-4 ml-0.5 bg-indigo-400 animate-pulse align-middle" />
+                  )}
+                </div>
+                {!loading && index === lastIndex && (
+                  <button
+                    onClick={handleRegenerate}
+                    disabled={disabled}
+                    className="text-xs text-gray-500 hover:text-indigo-600 mt-1 disabled:opacity-50"
+                  >
+                    🔄 Regenerate
+                  </button>
+                )}
+              </div>
+            )
+          )}
+          <div ref={threadEndRef} />
+        </div>
+      )}
+
+      {error && <AiErrorNotice error={error} className="mb-3 text-sm" />}
+
+      <textarea
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            handleAsk();
+          }
+        }}
+        placeholder={
+          messages.length > 0
+            ? "Ask a follow-up... (e.g., 'and for users over 40?')"
+            : "Ask anything about your data... (e.g., 'What patterns do you see?')"
+        }
+        className="w-full px-4 py-3 border-2 border-indigo-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all duration-200 resize-none text-gray-900 placeholder-gray-400 mb-3"
+        rows={3}
+      />
+      {!disabled && (
+        <div className="mb-2">
+          <PromptEstimate
+            tokens={nextTokens}
+            budget={context.budget}
+            cost={estimateCost(provider, nextTokens)}
+            notes={[
+              ...(context.note ? [context.note] : []),
+              ...(next.dropped > 0
+                ? [`${next.dropped} earlier messages are left out.`]
+                : []),
+            ]}
+          />
+        </div>
+      )}
+      {loading ? (
+        <button
+          onClick={() => abortRef.current?.abort()}
+          className="px-4 py-2 rounded-full text-sm font-semibold transition-all duration-200 flex items-center justify-center bg-red-100 text-red-700 hover:bg-red-200 shadow-md"
+        >
+          <span className="mr-2 animate-spin">🌀</span> Stop
+        </button>
+      ) : (
+        <button
+          onClick={handleAsk}
+          disabled={!question.trim() || disabled}
+          className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-200 flex items-center justify-center
+                  ${
+                    !question.trim() || disabled
+                      ? "bg-gray-200 text-gray-500 cursor-not-allowed"
+                      : "bg-indigo-600 text-white hover:bg-indigo-700 shadow-md"
+                  }`}
+        >
+          <span className="mr-2">🤔</span> Ask Question
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,365 @@
+import { useState } from "react";
+import {
+  CASE_STYLES,
+  FILL_METHODS,
+  describeStep,
+  type CaseStyle,
+  type CleaningIssues,
+  type CleaningStep,
+  type FillMethod,
+} from "../helpers/cleaning";
+
+type Props = {
+  // Found in the active dataset after its current steps
+  issues: CleaningIssues;
+  // Every column of the dataset, computed ones included
+  columnNames: string[];
+  steps: CleaningStep[];
+  // Undone steps that can be redone
+  redoCount: number;
+  onApply: (step: CleaningStep) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Undoes the step at this index and every step after it
+  onRevert: (index: number) => void;
+};
+
+type Operation = "fillMissing" | "dropMissing" | "case" | "rename" | "drop";
+
+const OPERATIONS: { value: Operation; label: string }[] = [
+  { value: "fillMissing", label: "Fill missing values" },
+  { value: "dropMissing", label: "Drop rows with missing values" },
+  { value: "case", label: "Change casing" },
+  { value: "rename", label: "Rename column" },
+  { value: "drop", label: "Drop column" },
+];
+
+const inputClass =
+  "px-2 py-1 rounded border border-gray-300 bg-white text-gray-800 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const fixButtonClass =
+  "px-2 py-0.5 rounded text-xs font-medium bg-indigo-50 text-indigo-700 hover:bg-indigo-100";
+
+// Per-column problems in the raw values and a replayable list of fixes
+const CleaningPanel = ({
+  issues,
+  columnNames,
+  steps,
+  redoCount,
+  onApply,
+  onUndo,
+  onRedo,
+  onRevert,
+}: Props) => {
+  const [operation, setOperation] = useState<Operation>("fillMissing");
+  const [column, setColumn] = useState("");
+  const [fillMethod, setFillMethod] = useState<FillMethod>("median");
+  const [fillValue, setFillValue] = useState("");
+  const [caseStyle, setCaseStyle] = useState<CaseStyle>("common");
+  const [newName, setNewName] = useState("");
+
+  const columns = issues.columns.map((c) => c.column);
+  const target = columns.includes(column) ? column : (columns[0] ?? "");
+  const flagged = issues.columns.filter(
+    (c) => c.empty + c.missingTokens + c.whitespace + c.casingVariants > 0
+  );
+  const withColumns = (key: "whitespace" | "missingTokens") =>
+    issues.columns.filter((c) => c[key] > 0).map((c) => c.column);
+  const found = flagged.length + (issues.duplicates > 0 ? 1 : 0);
+
+  const trimmedName = newName.trim();
+  const nameError =
+    operation === "rename" && columnNames.includes(trimmedName)
+      ? `A column named "${trimmedName}" already exists.`
+      : null;
+  const canApply =
+    !!target &&
+    !nameError &&
+    (operation !== "rename" || !!trimmedName) &&
+    (operation !== "fillMissing" || fillMethod !== "value" || !!fillValue);
+
+  const handleApply = () => {
+    if (!canApply) return;
+    const steps: Record<Operation, CleaningStep> = {
+      fillMissing: {
+        kind: "fillMissing",
+        column: target,
+        method: fillMethod,
+        value: fillValue,
+      },
+      dropMissing: { kind: "dropMissing", columns: [target] },
+      case: { kind: "case", columns: [target], style: caseStyle },
+      rename: { kind: "rename", from: target, to: trimmedName },
+      drop: { kind: "drop", column: target },
+    };
+    onApply(steps[operation]);
+    setNewName("");
+    if (operation === "rename") setColumn(trimmedName);
+  };
+
+  return (
+    <details className="mb-8 border-b pb-6">
+      <summary className="cursor-pointer text-lg font-medium text-gray-700 select-none">
+        Data Cleaning
+        <span
+          className={`ml-2 text-xs px-2 py-1 rounded ${
+            found > 0
+              ? "bg-amber-100 text-amber-800"
+              : "bg-green-100 text-green-700"
+          }`}
+        >
+          {found > 0 ? `${found} to review` : "looks clean"}
+        </span>
+        {steps.length > 0 && (
+          <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+            {steps.length} step{steps.length === 1 ? "" : "s"} applied
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span>{issues.rowCount.toLocaleString()} rows.</span>
+        {issues.duplicates > 0 && (
+          <>
+            <span>
+              {issues.duplicates.toLocaleString()} duplicate row
+              {issues.duplicates === 1 ? "" : "s"}.
+            </span>
+            <button
+              onClick={() => onApply({ kind: "dedupe" })}
+              className={fixButtonClass}
+            >
+              Remove duplicates
+            </button>
+          </>
+        )}
+        {withColumns("whitespace").length > 1 && (
+          <button
+            onClick={() =>
+              onApply({ kind: "trim", columns: withColumns("whitespace") })
+            }
+            className={fixButtonClass}
+          >
+            Trim all columns
+          </button>
+        )}
+        {withColumns("missingTokens").length > 1 && (
+          <button
+            onClick={() =>
+              onApply({
+                kind: "normalizeMissing",
+                columns: withColumns("missingTokens"),
+              })
+            }
+            className={fixButtonClass}
+          >
+            Normalize missing values in all columns
+          </button>
+        )}
+      </div>
+
+      {flagged.length > 0 && (
+        <div className="mt-3 overflow-x-auto">
+          <table className="min-w-full text-xs text-left">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="py-1 pr-3 font-medium">Column</th>
+                <th className="py-1 pr-3 font-medium">Blank</th>
+                <th className="py-1 pr-3 font-medium">"N/A"-style</th>
+                <th className="py-1 pr-3 font-medium">Extra spaces</th>
+                <th className="py-1 pr-3 font-medium">Casing variants</th>
+                <th className="py-1 font-medium">Fix</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-700">
+              {flagged.map((c) => (
+                <tr key={c.column} className="border-t border-gray-100">
+                  <td className="py-1 pr-3 font-medium text-gray-800">
+                    {c.column}
+                  </td>
+                  <td className="py-1 pr-3">{c.empty || "–"}</td>
+                  <td className="py-1 pr-3">{c.missingTokens || "–"}</td>
+                  <td className="py-1 pr-3">{c.whitespace || "–"}</td>
+                  <td className="py-1 pr-3">{c.casingVariants || "–"}</td>
+                  <td className="py-1 flex flex-wrap gap-1">
+                    {c.whitespace > 0 && (
+                      <button
+                        onClick={() =>
+                          onApply({ kind: "trim", columns: [c.column] })
+                        }
+                        className={fixButtonClass}
+                      >
+                        Trim
+                      </button>
+                    )}
+                    {c.missingTokens > 0 && (
+                      <button
+                        onClick={() =>
+                          onApply({
+                            kind: "normalizeMissing",
+                            columns: [c.column],
+                          })
+                        }
+                        className={fixButtonClass}
+                      >
+                        Mark as missing
+                      </button>
+                    )}
+                    {c.casingVariants > 0 && (
+                      <button
+                        onClick={() =>
+                          onApply({
+                            kind: "case",
+                            columns: [c.column],
+                            style: "common",
+                          })
+                        }
+                        className={fixButtonClass}
+                      >
+                        Unify casing
+                      </button>
+                    )}
+                    {c.empty > 0 && (
+                      <button
+                        onClick={() => {
+                          setOperation("fillMissing");
+                          setColumn(c.column);
+                        }}
+                        className={fixButtonClass}
+                      >
+                        Fill…
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={operation}
+          onChange={(e) => setOperation(e.target.value as Operation)}
+          className={inputClass}
+        >
+          {OPERATIONS.map((op) => (
+            <option key={op.value} value={op.value}>
+              {op.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={target}
+          onChange={(e) => setColumn(e.target.value)}
+          className={inputClass}
+        >
+          {columns.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        {operation === "fillMissing" && (
+          <>
+            <span className="text-xs text-gray-600">with</span>
+            <select
+              value={fillMethod}
+              onChange={(e) => setFillMethod(e.target.value as FillMethod)}
+              className={inputClass}
+            >
+              {FILL_METHODS.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            {fillMethod === "value" && (
+              <input
+                type="text"
+                value={fillValue}
+                onChange={(e) => setFillValue(e.target.value)}
+                placeholder="Value"
+                className={`${inputClass} w-28`}
+              />
+            )}
+          </>
+        )}
+        {operation === "case" && (
+          <select
+            value={caseStyle}
+            onChange={(e) => setCaseStyle(e.target.value as CaseStyle)}
+            className={inputClass}
+          >
+            {CASE_STYLES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        )}
+        {operation === "rename" && (
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleApply()}
+            placeholder="New name"
+            className={`${inputClass} w-40`}
+          />
+        )}
+        <button
+          onClick={handleApply}
+          disabled={!canApply}
+          className="px-4 py-1.5 rounded-full text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          Apply
+        </button>
+      </div>
+      {nameError && <p className="mt-2 text-xs text-red-700">{nameError}</p>}
+
+      <div className="mt-4 border-t pt-3">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold text-gray-700">History</h4>
+          <button
+            onClick={onUndo}
+            disabled={steps.length === 0}
+            className="px-2 py-0.5 rounded text-xs text-gray-600 border border-gray-300 hover:bg-gray-50 disabled:opacity-40"
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={redoCount === 0}
+            className="px-2 py-0.5 rounded text-xs text-gray-600 border border-gray-300 hover:bg-gray-50 disabled:opacity-40"
+          >
+            ↷ Redo
+          </button>
+        </div>
+        {steps.length === 0 ? (
+          <p className="mt-2 text-xs text-gray-500 italic">
+            No cleaning yet, the chart and the AI see the rows as loaded.
+          </p>
+        ) : (
+          <ol className="mt-2 space-y-1 text-xs text-gray-700 list-decimal list-inside">
+            {steps.map((step, index) => (
+              <li key={index} className="group">
+                {describeStep(step)}
+                <button
+                  onClick={() => onRevert(index)}
+                  title="Undo this step and the ones after it"
+                  className="ml-2 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                >
+                  ↺
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default CleaningPanel;
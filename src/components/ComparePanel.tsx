@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { AGGREGATIONS, type Aggregation } from "../helpers/aggregate";
+import {
+  COMPARE_KEYS,
+  type CompareSpec,
+  type DatasetInfo,
+} from "../helpers/datasets";
+import type { DatasetProfile } from "../helpers/profile";
+import { isNumericType } from "../helpers/schema";
+import ChartView from "./ChartView";
+
+type Props = {
+  datasets: DatasetInfo[];
+  activeId: string;
+  rows: Record<string, string | number>[];
+  profile: DatasetProfile;
+  onCompare: (spec: CompareSpec) => void;
+};
+
+const selectClass =
+  "px-2 py-1 rounded border border-gray-300 bg-white text-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const ComparePanel = ({
+  datasets,
+  activeId,
+  rows,
+  profile,
+  onCompare,
+}: Props) => {
+  const [open, setOpen] = useState(false);
+  const [otherId, setOtherId] = useState("");
+  const [xKey, setXKey] = useState("");
+  const [yKey, setYKey] = useState("");
+  const [aggregation, setAggregation] = useState<Aggregation>("mean");
+  const [chartType, setChartType] = useState<"bar" | "line">("bar");
+
+  const active = datasets.find((d) => d.id === activeId);
+  const others = datasets.filter((d) => d.id !== activeId);
+  const other = others.find((d) => d.id === otherId) ?? others[0];
+
+  // Only columns present (with a numeric type, for the metric) in both
+  const shared = (active?.schema ?? []).filter((c) =>
+    other?.schema.some((o) => o.name === c.name)
+  );
+  const metrics = shared.filter(
+    (c) =>
+      isNumericType(c.type) &&
+      isNumericType(other?.schema.find((o) => o.name === c.name)?.type)
+  );
+  const x = shared.some((c) => c.name === xKey)
+    ? xKey
+    : (shared[0]?.name ?? "");
+  const y = metrics.some((c) => c.name === yKey)
+    ? yKey
+    : (metrics[0]?.name ?? "");
+
+  useEffect(() => {
+    if (!open || !active || !other || !x || !y) return;
+    onCompare({
+      leftId: active.id,
+      rightId: other.id,
+      xKey: x,
+      yKey: y,
+      aggregation,
+    });
+  }, [open, active, other, x, y, aggregation, onCompare]);
+
+  if (!active || !other) return null;
+
+  return (
+    <details
+      className="mb-8 border-b pb-6"
+      onToggle={(e) => setOpen(e.currentTarget.open)}
+    >
+      <summary className="cursor-pointer text-lg font-medium text-gray-700 select-none">
+        Compare Datasets
+      </summary>
+      <div className="mt-4 flex items-center gap-2 flex-wrap text-sm text-gray-700">
+        <span className="font-medium">{active.name}</span>
+        <span>vs</span>
+        <select
+          value={other.id}
+          onChange={(e) => setOtherId(e.target.value)}
+          className={selectClass}
+        >
+          {others.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={aggregation}
+          onChange={(e) => setAggregation(e.target.value as Aggregation)}
+          className={selectClass}
+          title="Aggregation"
+        >
+          {AGGREGATIONS.map((a) => (
+            <option key={a.value} value={a.value}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+        <span>of</span>
+        <select
+          value={y}
+          onChange={(e) => setYKey(e.target.value)}
+          className={selectClass}
+          title="Metric"
+        >
+          {metrics.map((c) => (
+            <option key={c.name} value={c.name}>
+              {c.name.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+        <span>by</span>
+        <select
+          value={x}
+          onChange={(e) => setXKey(e.target.value)}
+          className={selectClass}
+          title="Group by"
+        >
+          {shared.map((c) => (
+            <option key={c.name} value={c.name}>
+              {c.name.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+        <select
+          value={chartType}
+          onChange={(e) => setChartType(e.target.value as "bar" | "line")}
+          className={selectClass}
+        >
+          <option value="bar">Bars</option>
+          <option value="line">Lines</option>
+        </select>
+      </div>
+      {!y || !x ? (
+        <p className="mt-4 text-sm text-gray-500">
+          The two datasets share no numeric column to compare.
+        </p>
+      ) : (
+        <div className="mt-4 h-80 bg-white p-4 rounded-lg shadow-inner border border-gray-200">
+          <ChartView
+            chartType={chartType}
+            data={rows}
+            xKey={x}
+            yKeys={[...COMPARE_KEYS]}
+            rightAxisKeys={[]}
+            seriesLabels={{ left: active.name, right: other.name }}
+            profile={profile}
+            trendLines={{}}
+            donut={false}
+            outliers={null}
+          />
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default ComparePanel;
@@ -0,0 +1,201 @@
+import { useMemo, useState } from "react";
+import {
+  ExpressionError,
+  FUNCTION_USAGE,
+  compileExpression,
+  computedColumn,
+} from "../helpers/expressions";
+import type { ColumnSchema } from "../helpers/schema";
+
+type Props = {
+  schema: ColumnSchema[];
+  // A sample of the active dataset's typed rows, for the preview and type
+  // inference
+  rows: Record<string, string | number>[];
+  onAdd: (column: ColumnSchema) => void;
+  onRemove: (name: string) => void;
+};
+
+const PREVIEW_ROWS = 5;
+
+const EXAMPLES = [
+  "Screen_Time_Hours * 7",
+  "bucket(BMI, 18.5, 25, 30)",
+  'if(Age >= 40, "40+", "under 40")',
+  "year([Signup Date])",
+];
+
+const ComputedColumnsPanel = ({ schema, rows, onAdd, onRemove }: Props) => {
+  const [name, setName] = useState("");
+  const [expression, setExpression] = useState("");
+
+  const columns = useMemo(() => schema.map((c) => c.name), [schema]);
+  const computed = schema.filter((c) => c.expression !== undefined);
+
+  // Parse errors as the user types, and the sample rows' results once valid
+  const check = useMemo(() => {
+    if (!expression.trim()) return null;
+    try {
+      const compiled = compileExpression(expression, columns);
+      return {
+        error: null,
+        preview: rows
+          .slice(0, PREVIEW_ROWS)
+          .map((row) => compiled.evaluate(row)),
+      };
+    } catch (err) {
+      return {
+        error:
+          err instanceof ExpressionError
+            ? err
+            : new ExpressionError(String(err), 0),
+        preview: [],
+      };
+    }
+  }, [expression, columns, rows]);
+
+  const trimmedName = name.trim();
+  const nameError = columns.includes(trimmedName)
+    ? `A column named "${trimmedName}" already exists.`
+    : null;
+  const canAdd = !!trimmedName && !nameError && !!check && !check.error;
+
+  // A computed column can't go while a later one still reads it
+  const usedBy = (column: string) =>
+    computed.find((c) => {
+      try {
+        return compileExpression(c.expression!, columns).columns.includes(
+          column
+        );
+      } catch {
+        return false;
+      }
+    })?.name;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd(computedColumn(trimmedName, expression, rows, schema));
+    setName("");
+    setExpression("");
+  };
+
+  return (
+    <details className="mb-8 border-b pb-6">
+      <summary className="cursor-pointer text-lg font-medium text-gray-700 select-none">
+        Computed Columns
+        {computed.length > 0 && (
+          <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+            {computed.length} added
+          </span>
+        )}
+      </summary>
+
+      {computed.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {computed.map((column) => {
+            const dependent = usedBy(column.name);
+            return (
+              <div
+                key={column.name}
+                className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg border border-gray-200 bg-white text-sm"
+              >
+                <div className="min-w-0">
+                  <span className="font-medium text-gray-800">
+                    {column.name}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {" "}
+                    · {column.type}
+                  </span>
+                  <code className="block text-xs text-indigo-700 truncate">
+                    = {column.expression}
+                  </code>
+                </div>
+                <button
+                  onClick={() => onRemove(column.name)}
+                  disabled={!!dependent}
+                  title={
+                    dependent ? `Used by "${dependent}"` : "Remove this column"
+                  }
+                  className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-40 disabled:hover:text-gray-500"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="mt-4 grid gap-2 sm:grid-cols-[12rem_1fr_auto]">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New column name"
+          className="px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <input
+          type="text"
+          value={expression}
+          onChange={(e) => setExpression(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          placeholder={`e.g. ${EXAMPLES[0]}`}
+          spellCheck={false}
+          className="px-3 py-2 rounded-lg border border-gray-300 font-mono text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="px-4 py-2 rounded-full text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed"
+        >
+          Add column
+        </button>
+      </div>
+
+      {nameError && <p className="mt-2 text-xs text-red-700">{nameError}</p>}
+      {check?.error && (
+        <p className="mt-2 text-xs text-red-700 font-mono whitespace-pre">
+          {expression}
+          {"\n"}
+          {" ".repeat(check.error.position)}^ {check.error.message}
+        </p>
+      )}
+      {check && !check.error && (
+        <p className="mt-2 text-xs text-gray-600">
+          Sample rows:{" "}
+          {check.preview
+            .map((value) => (value === null ? "(empty)" : String(value)))
+            .join(", ")}
+        </p>
+      )}
+
+      <details className="mt-3 text-xs text-gray-600">
+        <summary className="cursor-pointer select-none">
+          Expression reference
+        </summary>
+        <p className="mt-2">
+          Columns by name, or in [brackets] when they contain spaces. Operators:
+          + - * / % ^, & joins text, = != &lt; &lt;= &gt; &gt;=, and, or, not.
+          Missing values and invalid math (like dividing by zero) give empty
+          cells.
+        </p>
+        <p className="mt-1 font-mono">{FUNCTION_USAGE.join(" · ")}</p>
+        <p className="mt-1">
+          Examples:{" "}
+          {EXAMPLES.map((example) => (
+            <button
+              key={example}
+              onClick={() => setExpression(example)}
+              className="mr-2 font-mono text-indigo-700 hover:underline"
+            >
+              {example}
+            </button>
+          ))}
+        </p>
+      </details>
+    </details>
+  );
+};
+
+export default ComputedColumnsPanel;
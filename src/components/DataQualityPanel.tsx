@@ -0,0 +1,230 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  describeAiError,
+  toAiError,
+  type AiErrorDescription,
+} from "../helpers/aiErrors";
+import {
+  OUTLIER_METHODS,
+  type FlaggedRecord,
+  type IssueKind,
+  type OutlierMethod,
+  type QualityReport,
+} from "../helpers/anomalies";
+import { explainAnomalies } from "../helpers/apis";
+import {
+  anomalyMessages,
+  estimateCost,
+  messagesTokens,
+} from "../helpers/prompts";
+import { isAbortError, type ProviderConfig } from "../helpers/providers";
+import AiErrorNotice from "./AiErrorNotice";
+import PromptEstimate from "./PromptEstimate";
+
+type Props = {
+  report: QualityReport;
+  // Example rows of the report's issues
+  records: FlaggedRecord[];
+  method: OutlierMethod;
+  onMethodChange: (method: OutlierMethod) => void;
+  highlight: boolean;
+  onHighlightChange: (highlight: boolean) => void;
+  provider: ProviderConfig;
+  budget: number;
+  disabled: boolean;
+  // Called when the server no longer accepts the session
+  onAuthError: () => void;
+};
+
+const KIND_LABELS: Record<IssueKind, string> = {
+  outlier: "📍 Outliers",
+  impossible: "🚫 Impossible values",
+  duplicate: "👯 Duplicates",
+  missing: "🕳️ Missing data",
+};
+
+// Rule-based checks over every row, with an optional AI explanation
+const DataQualityPanel = ({
+  report,
+  records,
+  method,
+  onMethodChange,
+  highlight,
+  onHighlightChange,
+  provider,
+  budget,
+  disabled,
+  onAuthError,
+}: Props) => {
+  const [explanation, setExplanation] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AiErrorDescription | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // An explanation only holds for the findings it was asked about
+  useEffect(() => {
+    abortRef.current?.abort();
+    setExplanation("");
+    setError(null);
+  }, [report]);
+
+  const next = anomalyMessages(report, records, budget);
+  const nextTokens = messagesTokens(next.messages);
+
+  const handleExplain = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setError(null);
+    setExplanation("");
+
+    try {
+      await explainAnomalies(provider, report, records, budget, {
+        signal: controller.signal,
+        onToken: (token) => setExplanation((prev) => prev + token),
+      });
+    } catch (e) {
+      if (!isAbortError(e)) {
+        console.error("Explain API Error:", e);
+        setError(describeAiError(e));
+        if (toAiError(e).kind === "auth") onAuthError();
+      }
+    } finally {
+      abortRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const kinds = Object.keys(KIND_LABELS) as IssueKind[];
+  const found = report.issues.reduce((sum, issue) => sum + issue.count, 0);
+
+  return (
+    <details className="mt-4 bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+      <summary className="cursor-pointer text-lg font-medium text-gray-700 select-none">
+        Data Quality
+        <span
+          className={`ml-2 text-xs px-2 py-1 rounded ${
+            found > 0
+              ? "bg-amber-100 text-amber-800"
+              : "bg-green-100 text-green-700"
+          }`}
+        >
+          {report.issues.length > 0
+            ? `${report.issues.length} findings`
+            : "no findings"}
+        </span>
+      </summary>
+
+      <div className="mt-4 flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-700">
+          Outliers by
+          <select
+            value={method}
+            onChange={(e) => onMethodChange(e.target.value as OutlierMethod)}
+            className="px-2 py-1 rounded border border-gray-300 bg-white text-gray-800 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {OUTLIER_METHODS.map((m) => (
+              <option key={m.value} value={m.value}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={highlight}
+            onChange={(e) => onHighlightChange(e.target.checked)}
+            className="accent-red-600"
+          />
+          Highlight outliers on the chart
+        </label>
+        <span className="text-xs text-gray-500">
+          {report.rowCount.toLocaleString()} rows checked
+        </span>
+      </div>
+
+      {report.issues.length === 0 ? (
+        <p className="mt-3 text-sm text-gray-500 italic">
+          No outliers, duplicates, impossible values or missing data found.
+        </p>
+      ) : (
+        <div className="mt-3 grid gap-3 sm:grid-cols-2">
+          {kinds.map((kind) => {
+            const issues = report.issues.filter((i) => i.kind === kind);
+            if (issues.length === 0) return null;
+            return (
+              <div key={kind} className="text-sm">
+                <h4 className="font-semibold text-gray-700 mb-1">
+                  {KIND_LABELS[kind]}
+                </h4>
+                <ul className="space-y-0.5 text-gray-600">
+                  {issues.map((issue) => (
+                    <li key={`${issue.column}-${issue.message}`}>
+                      {issue.column && (
+                        <span className="font-medium text-gray-800">
+                          {issue.column}:{" "}
+                        </span>
+                      )}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {records.length > 0 && (
+        <div className="mt-4 border-t pt-3">
+          {error && <AiErrorNotice error={error} className="mb-3 text-sm" />}
+          <div className="flex flex-wrap items-center gap-3">
+            {loading ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-4 py-2 rounded-full text-sm font-semibold bg-red-100 text-red-700 hover:bg-red-200 shadow-md"
+              >
+                <span className="mr-2 animate-spin">🌀</span> Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleExplain}
+                disabled={disabled}
+                className="px-4 py-2 rounded-full text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 shadow-md disabled:bg-gray-200 disabled:text-gray-500 disabled:shadow-none disabled:cursor-not-allowed"
+              >
+                <span className="mr-2">💡</span> Explain these
+              </button>
+            )}
+            <span className="text-xs text-gray-500">
+              Sends {next.sent} of {records.length} flagged records, not the
+              dataset.
+            </span>
+          </div>
+          {!disabled && !loading && (
+            <div className="mt-2">
+              <PromptEstimate
+                tokens={nextTokens}
+                budget={budget}
+                cost={estimateCost(provider, nextTokens)}
+                notes={[]}
+              />
+            </div>
+          )}
+          {explanation && (
+            <p className="mt-3 text-sm text-gray-800 whitespace-pre-wrap bg-indigo-50 p-3 rounded-lg border border-indigo-100 animate-fade-in">
+              {explanation}
+              {loading && (
+                <span className="inline-block w-2 h-4 ml-0.5 bg-indigo-400 animate-pulse align-middle" />
+              )}
+            </p>
+          )}
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,46 @@
+import type { DatasetInfo } from "../helpers/datasets";
+
+type Props = {
+  datasets: DatasetInfo[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+};
+
+const DatasetTabs = ({ datasets, activeId, onSelect, onRemove }: Props) => (
+  <div className="mt-4 flex items-center gap-2 flex-wrap">
+    <span className="text-sm font-medium text-gray-600">Datasets:</span>
+    {datasets.map((dataset) => {
+      const isActive = dataset.id === activeId;
+      return (
+        <span
+          key={dataset.id}
+          className={`inline-flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border-2 text-sm font-medium ${
+            isActive
+              ? "border-indigo-500 bg-indigo-600 text-white"
+              : "border-indigo-200 bg-white text-indigo-800 hover:bg-indigo-50"
+          }`}
+        >
+          <button
+            onClick={() => onSelect(dataset.id)}
+            disabled={isActive}
+            title={`${dataset.rowCount.toLocaleString()} rows, ${dataset.schema.length} columns`}
+          >
+            {dataset.name}
+          </button>
+          <button
+            onClick={() => onRemove(dataset.id)}
+            className={`px-1.5 rounded-full ${
+              isActive ? "hover:bg-indigo-500" : "hover:bg-indigo-100"
+            }`}
+            title="Close dataset"
+          >
+            ×
+          </button>
+        </span>
+      );
+    })}
+  </div>
+);
+
+export default DatasetTabs;
@@ -0,0 +1,158 @@
+import { useState, type RefObject } from "react";
+import {
+  blobToDataUrl,
+  buildHtmlReport,
+  buildMarkdownReport,
+  chartSvg,
+  rowsToCsv,
+  rowsToJson,
+  svgToPng,
+  type ReportContent,
+} from "../helpers/exporters";
+import { downloadFile } from "../helpers/functions";
+import type { DataInsights } from "../helpers/insights";
+import type { DatasetProfile } from "../helpers/profile";
+import type { ChatMessage } from "../helpers/providers";
+
+type Props = {
+  chartRef: RefObject<HTMLDivElement | null>;
+  // Rows exactly as displayed: filtered, aggregated or sampled
+  rows: Record<string, string | number>[];
+  profile: DatasetProfile;
+  insights: DataInsights | null;
+  chat: ChatMessage[];
+  fileName: string;
+};
+
+const buttonClass =
+  "px-3 py-1.5 rounded-full text-xs font-semibold bg-white border border-indigo-200 text-indigo-700 hover:bg-indigo-50 disabled:text-gray-400 disabled:border-gray-200 disabled:hover:bg-white";
+
+const ExportPanel = ({
+  chartRef,
+  rows,
+  profile,
+  insights,
+  chat,
+  fileName,
+}: Props) => {
+  const [error, setError] = useState<string | null>(null);
+  const baseName = (fileName || "chart").replace(/[^\w\- ]+/g, "").trim();
+
+  const run = async (action: () => Promise<void> | void) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const currentSvg = () => {
+    const svg = chartRef.current && chartSvg(chartRef.current);
+    if (!svg) throw new Error("This chart type can't be exported as an image.");
+    return svg;
+  };
+
+  const exportPng = async () => {
+    const { svg, width, height } = currentSvg();
+    downloadFile(
+      `${baseName}.png`,
+      await svgToPng(svg, width, height),
+      "image/png"
+    );
+  };
+
+  // The chart image is optional in reports, a heatmap simply has none
+  const reportContent = async (): Promise<ReportContent> => {
+    const svg = chartRef.current && chartSvg(chartRef.current);
+    return {
+      title: fileName || "Data report",
+      chartImage: svg
+        ? await blobToDataUrl(await svgToPng(svg.svg, svg.width, svg.height))
+        : null,
+      profile,
+      insights,
+      chat,
+    };
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-xs font-medium text-gray-500">Export:</span>
+        <button onClick={() => run(exportPng)} className={buttonClass}>
+          PNG
+        </button>
+        <button
+          onClick={() =>
+            run(() =>
+              downloadFile(`${baseName}.svg`, currentSvg().svg, "image/svg+xml")
+            )
+          }
+          className={buttonClass}
+        >
+          SVG
+        </button>
+        <button
+          onClick={() =>
+            run(() =>
+              downloadFile(`${baseName}.csv`, rowsToCsv(rows), "text/csv")
+            )
+          }
+          disabled={rows.length === 0}
+          className={buttonClass}
+          title="The rows currently shown in the chart"
+        >
+          CSV
+        </button>
+        <button
+          onClick={() =>
+            run(() =>
+              downloadFile(
+                `${baseName}.json`,
+                rowsToJson(rows),
+                "application/json"
+              )
+            )
+          }
+          disabled={rows.length === 0}
+          className={buttonClass}
+          title="The rows currently shown in the chart"
+        >
+          JSON
+        </button>
+        <button
+          onClick={() =>
+            run(async () =>
+              downloadFile(
+                `${baseName} report.md`,
+                buildMarkdownReport(await reportContent()),
+                "text/markdown"
+              )
+            )
+          }
+          className={buttonClass}
+        >
+          📝 Markdown report
+        </button>
+        <button
+          onClick={() =>
+            run(async () =>
+              downloadFile(
+                `${baseName} report.html`,
+                buildHtmlReport(await reportContent()),
+                "text/html"
+              )
+            )
+          }
+          className={buttonClass}
+        >
+          🌐 HTML report
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-700">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,277 @@
+import { createId } from "../helpers/functions";
+import {
+  FILTER_OPERATORS,
+  activeConditions,
+  createCondition,
+  type Combinator,
+  type FilterCondition,
+  type FilterOperator,
+  type FilterState,
+} from "../helpers/filters";
+import type { ColumnSchema } from "../helpers/schema";
+
+type Props = {
+  filters: FilterState;
+  onChange: (filters: FilterState) => void;
+  columns: ColumnSchema[];
+  // Values offered per column used with "is one of", found by the worker
+  distinctValues: Record<string, string[]>;
+};
+
+const inputClass =
+  "px-2 py-1 rounded border border-gray-300 bg-white text-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const CombinatorSelect = ({
+  value,
+  onChange,
+}: {
+  value: Combinator;
+  onChange: (value: Combinator) => void;
+}) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as Combinator)}
+    className={`${inputClass} font-semibold uppercase text-xs`}
+  >
+    <option value="and">and</option>
+    <option value="or">or</option>
+  </select>
+);
+
+const FilterBuilder = ({
+  filters,
+  onChange,
+  columns,
+  distinctValues,
+}: Props) => {
+  const activeCount = activeConditions(filters).length;
+
+  const updateGroup = (
+    groupId: string,
+    update: (conditions: FilterCondition[]) => FilterCondition[],
+    combinator?: Combinator
+  ) =>
+    onChange({
+      ...filters,
+      groups: filters.groups
+        .map((g) =>
+          g.id === groupId
+            ? {
+                ...g,
+                combinator: combinator ?? g.combinator,
+                conditions: update(g.conditions),
+              }
+            : g
+        )
+        .filter((g) => g.conditions.length > 0),
+    });
+
+  const updateCondition = (
+    groupId: string,
+    conditionId: string,
+    patch: Partial<FilterCondition>
+  ) =>
+    updateGroup(groupId, (conditions) =>
+      conditions.map((c) => (c.id === conditionId ? { ...c, ...patch } : c))
+    );
+
+  const addGroup = () =>
+    onChange({
+      ...filters,
+      groups: [
+        ...filters.groups,
+        {
+          id: createId(),
+          combinator: "and",
+          conditions: [createCondition(createId(), columns[0]?.name ?? "")],
+        },
+      ],
+    });
+
+  const renderValueInputs = (groupId: string, condition: FilterCondition) => {
+    const update = (patch: Partial<FilterCondition>) =>
+      updateCondition(groupId, condition.id, patch);
+
+    switch (condition.operator) {
+      case "equals":
+      case "contains":
+        return (
+          <input
+            type="text"
+            value={condition.value}
+            onChange={(e) => update({ value: e.target.value })}
+            placeholder="value"
+            className={`${inputClass} w-32`}
+          />
+        );
+      case "range":
+        return (
+          <>
+            <input
+              type="text"
+              value={condition.min}
+              onChange={(e) => update({ min: e.target.value })}
+              placeholder="min"
+              className={`${inputClass} w-20`}
+            />
+            <span className="text-gray-500 text-sm">and</span>
+            <input
+              type="text"
+              value={condition.max}
+              onChange={(e) => update({ max: e.target.value })}
+              placeholder="max"
+              className={`${inputClass} w-20`}
+            />
+          </>
+        );
+      case "in":
+        return (
+          <select
+            multiple
+            value={condition.values}
+            onChange={(e) =>
+              update({
+                values: [...e.target.selectedOptions].map((o) => o.value),
+              })
+            }
+            className={`${inputClass} min-w-32 h-20`}
+            title="Ctrl/Cmd-click to select several values"
+          >
+            {(distinctValues[condition.column] ?? []).map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        );
+      case "isEmpty":
+        return null;
+    }
+  };
+
+  return (
+    <details className="mb-8 border-b pb-6">
+      <summary className="cursor-pointer text-lg font-medium text-gray-700 select-none">
+        Filters
+        <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+          {activeCount > 0 ? `${activeCount} active` : "none"}
+        </span>
+      </summary>
+      <div className="mt-4 space-y-3">
+        {filters.groups.map((group, groupIndex) => (
+          <div key={group.id}>
+            {groupIndex > 0 && (
+              <div className="mb-2">
+                <CombinatorSelect
+                  value={filters.combinator}
+                  onChange={(combinator) =>
+                    onChange({ ...filters, combinator })
+                  }
+                />
+              </div>
+            )}
+            <div className="p-3 rounded-lg border border-indigo-200 bg-indigo-50 space-y-2">
+              {group.conditions.map((condition, index) => (
+                <div
+                  key={condition.id}
+                  className="flex items-center gap-2 flex-wrap"
+                >
+                  {index === 0 ? (
+                    <span className="text-xs font-semibold uppercase text-gray-500 w-14">
+                      where
+                    </span>
+                  ) : index === 1 ? (
+                    <div className="w-14">
+                      <CombinatorSelect
+                        value={group.combinator}
+                        onChange={(combinator) =>
+                          updateGroup(group.id, (c) => c, combinator)
+                        }
+                      />
+                    </div>
+                  ) : (
+                    <span className="text-xs font-semibold uppercase text-gray-500 w-14">
+                      {group.combinator}
+                    </span>
+                  )}
+                  <select
+                    value={condition.column}
+                    onChange={(e) =>
+                      updateCondition(group.id, condition.id, {
+                        column: e.target.value,
+                        values: [],
+                      })
+                    }
+                    className={inputClass}
+                  >
+                    {columns.map((c) => (
+                      <option key={c.name} value={c.name}>
+                        {c.name.replace(/_/g, " ")}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={condition.operator}
+                    onChange={(e) =>
+                      updateCondition(group.id, condition.id, {
+                        operator: e.target.value as FilterOperator,
+                      })
+                    }
+                    className={inputClass}
+                  >
+                    {FILTER_OPERATORS.map((op) => (
+                      <option key={op.value} value={op.value}>
+                        {op.label}
+                      </option>
+                    ))}
+                  </select>
+                  {renderValueInputs(group.id, condition)}
+                  <button
+                    onClick={() =>
+                      updateGroup(group.id, (conditions) =>
+                        conditions.filter((c) => c.id !== condition.id)
+                      )
+                    }
+                    className="text-gray-400 hover:text-red-600"
+                    title="Remove condition"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() =>
+                  updateGroup(group.id, (conditions) => [
+                    ...conditions,
+                    createCondition(createId(), columns[0]?.name ?? ""),
+                  ])
+                }
+                className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                + Add condition
+              </button>
+            </div>
+          </div>
+        ))}
+        <div className="flex gap-4">
+          <button
+            onClick={addGroup}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            + Add filter group
+          </button>
+          {filters.groups.length > 0 && (
+            <button
+              onClick={() => onChange({ ...filters, groups: [] })}
+              className="text-sm font-medium text-gray-500 hover:text-red-600"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default FilterBuilder;
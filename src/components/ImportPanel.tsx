@@ -0,0 +1,184 @@
+import {
+  DELIMITERS,
+  ENCODINGS,
+  IMPORT_FORMATS,
+  type ImportFormat,
+  type ImportOptions,
+  type ImportPreview,
+} from "../helpers/importers";
+
+type Props = {
+  fileName: string;
+  options: ImportOptions;
+  onOptionsChange: (options: ImportOptions) => void;
+  preview: ImportPreview | null;
+  error: string | null;
+  onImport: () => void;
+  onCancel: () => void;
+};
+
+const selectClass =
+  "px-2 py-1 rounded border border-gray-300 bg-white text-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const delimiterLabel = (delimiter: string) =>
+  DELIMITERS.find((d) => d.value === delimiter)?.label ??
+  JSON.stringify(delimiter);
+
+const ImportPanel = ({
+  fileName,
+  options,
+  onOptionsChange,
+  preview,
+  error,
+  onImport,
+  onCancel,
+}: Props) => {
+  const update = (patch: Partial<ImportOptions>) =>
+    onOptionsChange({ ...options, ...patch });
+  const isText = options.format !== "xlsx";
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border border-indigo-200 bg-indigo-50">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold text-gray-800">Import {fileName}</h3>
+        {preview && (
+          <span className="text-xs text-gray-500">
+            First {preview.rows.length} rows, {preview.columns.length} columns
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-4 flex-wrap mb-3 text-sm text-gray-700">
+        <label className="flex items-center gap-1">
+          Format
+          <select
+            value={options.format}
+            onChange={(e) =>
+              update({ format: e.target.value as ImportFormat, sheet: "" })
+            }
+            className={selectClass}
+          >
+            {IMPORT_FORMATS.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {options.format === "delimited" && (
+          <label className="flex items-center gap-1">
+            Delimiter
+            <select
+              value={options.delimiter}
+              onChange={(e) => update({ delimiter: e.target.value })}
+              className={selectClass}
+            >
+              {DELIMITERS.map((d) => (
+                <option key={d.label} value={d.value}>
+                  {d.value === "" && preview?.delimiter
+                    ? `${d.label} (${delimiterLabel(preview.delimiter)})`
+                    : d.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {options.format === "xlsx" && (preview?.sheets?.length ?? 0) > 0 && (
+          <label className="flex items-center gap-1">
+            Sheet
+            <select
+              value={options.sheet || preview?.sheets?.[0]}
+              onChange={(e) => update({ sheet: e.target.value })}
+              className={selectClass}
+            >
+              {preview?.sheets?.map((sheet) => (
+                <option key={sheet} value={sheet}>
+                  {sheet}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {isText && (
+          <label className="flex items-center gap-1">
+            Encoding
+            <select
+              value={options.encoding}
+              onChange={(e) => update({ encoding: e.target.value })}
+              className={selectClass}
+            >
+              {ENCODINGS.map((encoding) => (
+                <option key={encoding} value={encoding}>
+                  {encoding}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {options.format !== "ndjson" && (
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.hasHeader}
+              onChange={(e) => update({ hasHeader: e.target.checked })}
+              className="accent-indigo-600"
+            />
+            First row is a header
+          </label>
+        )}
+      </div>
+      {error ? (
+        <p className="text-sm text-red-700 bg-red-100 border border-red-300 rounded px-3 py-2 mb-3">
+          {error}
+        </p>
+      ) : preview ? (
+        <div className="overflow-auto max-h-64 mb-3 bg-white rounded border border-gray-200">
+          <table className="text-xs text-left text-gray-700">
+            <thead className="bg-gray-100 sticky top-0">
+              <tr>
+                {preview.columns.map((column) => (
+                  <th key={column} className="px-2 py-1 font-semibold">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, index) => (
+                <tr key={index} className="border-t border-gray-100">
+                  {preview.columns.map((column) => (
+                    <td key={column} className="px-2 py-1 whitespace-nowrap">
+                      {row[column]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-3">Loading preview…</p>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={onImport}
+          disabled={!preview || !!error}
+          className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-200 ${
+            !preview || error
+              ? "bg-gray-300 text-gray-500 cursor-not-allowed"
+              : "bg-indigo-600 text-white hover:bg-indigo-700 shadow-md"
+          }`}
+        >
+          Import
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 rounded-full text-sm font-semibold text-gray-600 hover:bg-gray-200"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPanel;
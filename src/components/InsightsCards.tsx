@@ -0,0 +1,109 @@
+import { CHART_TYPES } from "../helpers/charts";
+import type { ChartSuggestion, DataInsights } from "../helpers/insights";
+
+type Props = {
+  insights: DataInsights;
+  onApplyChart: (suggestion: ChartSuggestion) => void;
+};
+
+const CONFIDENCE_STYLES: Record<DataInsights["confidence"], string> = {
+  low: "bg-red-100 text-red-700",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-green-100 text-green-700",
+};
+
+// The AI's structured summary: findings, outliers and charts to try next
+const InsightsCards = ({ insights, onApplyChart }: Props) => {
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-gray-800 font-semibold">{insights.headline}</p>
+        <span
+          title={insights.confidenceReason}
+          className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold ${
+            CONFIDENCE_STYLES[insights.confidence]
+          }`}
+        >
+          {insights.confidence} confidence
+        </span>
+      </div>
+
+      {insights.keyFindings.length > 0 && (
+        <div className="space-y-2">
+          {insights.keyFindings.map((finding, i) => (
+            <div
+              key={i}
+              className="bg-white p-3 rounded-lg border border-indigo-100 shadow-sm"
+            >
+              <p className="text-sm font-semibold text-indigo-800">
+                {finding.title}
+              </p>
+              <p className="text-sm text-gray-700">{finding.detail}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {insights.outliers.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">
+            🔍 Outliers
+          </h3>
+          <div className="space-y-2">
+            {insights.outliers.map((outlier, i) => (
+              <div
+                key={i}
+                className="bg-amber-50 p-3 rounded-lg border border-amber-200 text-sm"
+              >
+                <span className="font-semibold text-amber-800">
+                  {outlier.column}:
+                </span>{" "}
+                <span className="text-gray-700">{outlier.description}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {insights.suggestedCharts.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">
+            📈 Suggested charts
+          </h3>
+          <div className="space-y-2">
+            {insights.suggestedCharts.map((suggestion, i) => (
+              <div
+                key={i}
+                className="bg-white p-3 rounded-lg border border-indigo-100 shadow-sm flex items-start justify-between gap-2"
+              >
+                <div className="text-sm">
+                  <p className="font-semibold text-gray-800">
+                    {CHART_TYPES[suggestion.chartType].label}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {suggestion.xColumn}
+                    {suggestion.yColumns.length > 0 &&
+                      ` → ${suggestion.yColumns.join(", ")}`}
+                  </p>
+                  <p className="text-gray-700 mt-1">{suggestion.reason}</p>
+                </div>
+                <button
+                  onClick={() => onApplyChart(suggestion)}
+                  className="shrink-0 px-3 py-1 rounded-full text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  Apply
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 italic">
+        {insights.confidenceReason}
+      </p>
+    </div>
+  );
+};
+
+export default InsightsCards;
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import {
+  JOIN_KINDS,
+  suggestJoinKey,
+  type DatasetInfo,
+  type JoinKind,
+  type JoinSpec,
+} from "../helpers/datasets";
+
+type Props = {
+  datasets: DatasetInfo[];
+  onJoin: (spec: JoinSpec) => void;
+};
+
+const selectClass =
+  "px-2 py-1 rounded border border-gray-300 bg-white text-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const JoinPanel = ({ datasets, onJoin }: Props) => {
+  const [leftId, setLeftId] = useState(datasets[0]?.id ?? "");
+  const [rightId, setRightId] = useState(datasets[1]?.id ?? "");
+  const [kind, setKind] = useState<JoinKind>("inner");
+  // Keys chosen by hand, otherwise the suggestion for the current pair
+  const [keys, setKeys] = useState<{ leftKey: string; rightKey: string }>();
+
+  const left = datasets.find((d) => d.id === leftId) ?? datasets[0];
+  const right =
+    datasets.find((d) => d.id === rightId) ??
+    datasets.find((d) => d.id !== left?.id);
+  if (!left || !right) return null;
+
+  const { leftKey, rightKey } =
+    keys ?? suggestJoinKey(left.schema, right.schema);
+
+  const selectDataset = (side: "left" | "right", id: string) => {
+    if (side === "left") setLeftId(id);
+    else setRightId(id);
+    setKeys(undefined);
+  };
+
+  return (
+    <details className="mb-8 border-b pb-6">
+      <summary className="cursor-pointer text-lg font-medium text-gray-700 select-none">
+        Join Datasets
+      </summary>
+      <div className="mt-4 flex items-center gap-2 flex-wrap text-sm text-gray-700">
+        <select
+          value={left.id}
+          onChange={(e) => selectDataset("left", e.target.value)}
+          className={selectClass}
+          title="Left dataset"
+        >
+          {datasets.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as JoinKind)}
+          className={selectClass}
+        >
+          {JOIN_KINDS.map((k) => (
+            <option key={k.value} value={k.value}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={right.id}
+          onChange={(e) => selectDataset("right", e.target.value)}
+          className={selectClass}
+          title="Right dataset"
+        >
+          {datasets.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.name}
+            </option>
+          ))}
+        </select>
+        <span>on</span>
+        <select
+          value={leftKey}
+          onChange={(e) => setKeys({ leftKey: e.target.value, rightKey })}
+          className={selectClass}
+          title="Left key column"
+        >
+          {left.schema.map((c) => (
+            <option key={c.name} value={c.name}>
+              {c.name.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+        <span>=</span>
+        <select
+          value={rightKey}
+          onChange={(e) => setKeys({ leftKey, rightKey: e.target.value })}
+          className={selectClass}
+          title="Right key column"
+        >
+          {right.schema.map((c) => (
+            <option key={c.name} value={c.name}>
+              {c.name.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() =>
+            onJoin({
+              leftId: left.id,
+              rightId: right.id,
+              leftKey,
+              rightKey,
+              kind,
+            })
+          }
+          disabled={left.id === right.id}
+          className="px-4 py-1.5 rounded-full text-sm font-semibold bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-300 disabled:text-gray-500"
+        >
+          Join
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        The joined rows open as a new dataset. Keys match as trimmed,
+        case-insensitive text.
+      </p>
+    </details>
+  );
+};
+
+export default JoinPanel;
@@ -0,0 +1,26 @@
+import { ROUTES, type Route } from "../helpers/routes";
+
+type Props = {
+  route: Route;
+};
+
+const PageNav = ({ route }: Props) => (
+  <nav className="sticky top-0 z-10 flex items-center gap-2 px-4 py-2 bg-white/80 backdrop-blur-sm border-b border-gray-200">
+    {ROUTES.map((r) => (
+      <a
+        key={r.value}
+        href={r.hash}
+        aria-current={r.value === route ? "page" : undefined}
+        className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
+          r.value === route
+            ? "bg-indigo-100 text-indigo-700"
+            : "text-gray-600 hover:bg-gray-100"
+        }`}
+      >
+        {r.label}
+      </a>
+    ))}
+  </nav>
+);
+
+export default PageNav;
@@ -0,0 +1,34 @@
+type Props = {
+  tokens: number;
+  budget: number;
+  // USD, 0 for local providers and null when the price is unknown
+  cost: number | null;
+  notes: string[];
+};
+
+const formatCost = (cost: number | null) => {
+  if (cost === null) return "cost unknown";
+  if (cost === 0) return "no cost";
+  return cost < 0.0001 ? "< $0.0001" : `≈ $${cost.toFixed(4)}`;
+};
+
+// Size and price of the next request, shown before it is sent
+const PromptEstimate = ({ tokens, budget, cost, notes }: Props) => {
+  const over = tokens > budget;
+  return (
+    <div className={`text-xs ${over ? "text-red-700" : "text-gray-500"}`}>
+      <span title="Estimated from the prompt length, actual counts vary by model">
+        ≈ {tokens.toLocaleString()} / {budget.toLocaleString()} tokens ·{" "}
+        {formatCost(cost)}
+      </span>
+      {over && <span> · over budget even at its most compact</span>}
+      {notes.map((note) => (
+        <p key={note} className="italic">
+          {note}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default PromptEstimate;
@@ -0,0 +1,42 @@
+import {
+  PROVIDERS,
+  getProviderDefaults,
+  type ProviderConfig,
+  type ProviderId,
+} from "../helpers/providers";
+
+type Props = {
+  value: ProviderConfig;
+  onChange: (config: ProviderConfig) => void;
+};
+
+const ProviderSettings = ({ value, onChange }: Props) => {
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <select
+        value={value.id}
+        onChange={(e) =>
+          onChange(getProviderDefaults(e.target.value as ProviderId))
+        }
+        className="px-3 py-2 rounded-lg border-2 border-indigo-300 bg-white text-gray-800 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer"
+        title="AI Provider"
+      >
+        {(Object.keys(PROVIDERS) as ProviderId[]).map((id) => (
+          <option key={id} value={id}>
+            {PROVIDERS[id].label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={value.model}
+        onChange={(e) => onChange({ ...value, model: e.target.value })}
+        placeholder="Model"
+        className="px-3 py-2 border-2 border-gray-300 rounded-lg text-sm w-36 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        title="Model"
+      />
+    </div>
+  );
+};
+
+export default ProviderSettings;
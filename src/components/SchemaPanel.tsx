@@ -0,0 +1,90 @@
+import {
+  COLUMN_TYPES,
+  type ColumnSchema,
+  type ColumnType,
+} from "../helpers/schema";
+
+type Props = {
+  schema: ColumnSchema[];
+  onChange: (schema: ColumnSchema[]) => void;
+};
+
+const TYPE_ICONS: Record<ColumnType, string> = {
+  numeric: "🔢",
+  integer: "#️⃣",
+  categorical: "🏷️",
+  boolean: "☑️",
+  date: "📅",
+  text: "📝",
+};
+
+const SchemaPanel = ({ schema, onChange }: Props) => {
+  const overrides = schema.filter((c) => c.type !== c.inferred).length;
+
+  const setType = (name: string, type: ColumnType) =>
+    onChange(schema.map((c) => (c.name === name ? { ...c, type } : c)));
+
+  return (
+    <details className="mb-8 border-b pb-6">
+      <summary className="cursor-pointer text-lg font-medium text-gray-700 select-none">
+        Column Schema
+        <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+          {schema.length} columns
+          {overrides > 0 && `, ${overrides} overridden`}
+        </span>
+      </summary>
+      <div className="mt-4 grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+        {schema.map((column) => (
+          <div
+            key={column.name}
+            className={`flex items-center justify-between gap-2 px-3 py-2 rounded-lg border text-sm ${
+              column.type !== column.inferred
+                ? "border-purple-300 bg-purple-50"
+                : "border-gray-200 bg-white"
+            }`}
+          >
+            <div className="min-w-0">
+              <div
+                className="font-medium text-gray-800 truncate"
+                title={column.name}
+              >
+                {TYPE_ICONS[column.type]} {column.name.replace(/_/g, " ")}
+              </div>
+              <div className="text-xs text-gray-500">
+                inferred {column.inferred} ·{" "}
+                {Math.round(column.confidence * 100)}% confidence
+              </div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <select
+                value={column.type}
+                onChange={(e) =>
+                  setType(column.name, e.target.value as ColumnType)
+                }
+                className="px-2 py-1 rounded border border-gray-300 bg-white text-gray-800 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer"
+                title="Column type"
+              >
+                {COLUMN_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+              {column.type !== column.inferred && (
+                <button
+                  onClick={() => setType(column.name, column.inferred)}
+                  className="text-xs text-gray-500 hover:text-indigo-600"
+                  title="Reset to inferred type"
+                >
+                  ↺
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default SchemaPanel;
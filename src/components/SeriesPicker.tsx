@@ -0,0 +1,82 @@
+type Props = {
+  options: string[];
+  selected: string[];
+  rightAxisKeys: string[];
+  onChange: (selected: string[]) => void;
+  onRightAxisChange: (rightAxisKeys: string[]) => void;
+};
+
+const SeriesPicker = ({
+  options,
+  selected,
+  rightAxisKeys,
+  onChange,
+  onRightAxisChange,
+}: Props) => {
+  const available = options.filter((key) => !selected.includes(key));
+
+  const toggleAxis = (key: string) =>
+    onRightAxisChange(
+      rightAxisKeys.includes(key)
+        ? rightAxisKeys.filter((k) => k !== key)
+        : [...rightAxisKeys, key]
+    );
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      {selected.map((key) => {
+        const onRight = rightAxisKeys.includes(key);
+        return (
+          <span
+            key={key}
+            className={`inline-flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border-2 text-sm font-medium ${
+              onRight
+                ? "border-pink-300 bg-pink-50 text-pink-800"
+                : "border-indigo-300 bg-indigo-50 text-indigo-800"
+            }`}
+          >
+            Y: {key.replace(/_/g, " ")}
+            <button
+              onClick={() => toggleAxis(key)}
+              className="px-1.5 rounded-full text-xs font-semibold hover:bg-white"
+              title={onRight ? "Move to left axis" : "Move to right axis"}
+            >
+              {onRight ? "R" : "L"}
+            </button>
+            {selected.length > 1 && (
+              <button
+                onClick={() => {
+                  onChange(selected.filter((k) => k !== key));
+                  onRightAxisChange(rightAxisKeys.filter((k) => k !== key));
+                }}
+                className="px-1.5 rounded-full hover:bg-white"
+                title="Remove series"
+              >
+                ×
+              </button>
+            )}
+          </span>
+        );
+      })}
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => onChange([...selected, e.target.value])}
+          className="px-3 py-2 rounded-lg border-2 border-dashed border-indigo-300 bg-white text-gray-600 font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer text-sm"
+          title="Add series"
+        >
+          <option value="" disabled>
+            + Add Y
+          </option>
+          {available.map((key) => (
+            <option key={key} value={key}>
+              {key.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default SeriesPicker;
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import type { SessionRecord } from "../helpers/sessions";
+
+type Props = {
+  sessions: SessionRecord[];
+  currentId: string;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+};
+
+const buttonClass = "text-xs font-medium text-indigo-600 hover:text-indigo-800";
+
+const SessionList = ({
+  sessions,
+  currentId,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onNew,
+}: Props) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const startRename = (session: SessionRecord) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <details className="mb-6">
+      <summary className="cursor-pointer text-lg font-medium text-gray-700 select-none">
+        Saved Sessions
+        <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+          {sessions.length}
+        </span>
+      </summary>
+      <div className="mt-4 space-y-2">
+        {sessions.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Sessions are saved automatically once a file is loaded.
+          </p>
+        )}
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className={`flex items-center justify-between gap-4 px-3 py-2 rounded-lg border text-sm ${
+              session.id === currentId
+                ? "border-indigo-300 bg-indigo-50"
+                : "border-gray-200 bg-white"
+            }`}
+          >
+            <div className="min-w-0 flex-1">
+              {editingId === session.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="w-full px-2 py-1 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              ) : (
+                <div className="font-medium text-gray-800 truncate">
+                  {session.name}
+                  {session.id === currentId && (
+                    <span className="ml-2 text-xs text-indigo-600">
+                      current
+                    </span>
+                  )}
+                </div>
+              )}
+              <div className="text-xs text-gray-500">
+                {session.datasets.length} dataset
+                {session.datasets.length === 1 ? "" : "s"} · updated{" "}
+                {new Date(session.updatedAt).toLocaleString()}
+              </div>
+            </div>
+            <div className="flex items-center gap-3 shrink-0">
+              {session.id !== currentId && (
+                <button
+                  onClick={() => onOpen(session.id)}
+                  className={buttonClass}
+                >
+                  Open
+                </button>
+              )}
+              <button
+                onClick={() => startRename(session)}
+                className={buttonClass}
+              >
+                Rename
+              </button>
+              <button
+                onClick={() => onDuplicate(session.id)}
+                className={buttonClass}
+              >
+                Duplicate
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete session "${session.name}"?`)) {
+                    onDelete(session.id);
+                  }
+                }}
+                className="text-xs font-medium text-gray-500 hover:text-red-600"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+        {currentId && (
+          <button
+            onClick={onNew}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            + New empty session
+          </button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default SessionList;
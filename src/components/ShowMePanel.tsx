@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState } from "react";
+import { AGGREGATIONS } from "../helpers/aggregate";
+import {
+  describeAiError,
+  toAiError,
+  type AiErrorDescription,
+} from "../helpers/aiErrors";
+import { requestView } from "../helpers/apis";
+import { CHART_TYPES } from "../helpers/charts";
+import { describeCondition } from "../helpers/filters";
+import type { DatasetContext } from "../helpers/prompts";
+import { isAbortError, type ProviderConfig } from "../helpers/providers";
+import type { ColumnSchema } from "../helpers/schema";
+import type { ViewSettings } from "../helpers/sessions";
+import { viewRequestToSpec } from "../helpers/viewRequest";
+import { reconcileViewSpec, type ViewSpec } from "../helpers/viewSpec";
+import AiErrorNotice from "./AiErrorNotice";
+
+type Props = {
+  provider: ProviderConfig;
+  context: DatasetContext;
+  // Columns the model may use, as charted
+  schema: ColumnSchema[];
+  current: ViewSettings;
+  disabled: boolean;
+  onApply: (spec: ViewSpec) => void;
+  // Called when the server no longer accepts the session
+  onAuthError: () => void;
+};
+
+type Proposal = {
+  spec: ViewSpec;
+  explanation: string;
+  // What had to change to fit the dataset
+  issues: string[];
+};
+
+// "Show me…": the model proposes a view, which is applied once confirmed
+const ShowMePanel = ({
+  provider,
+  context,
+  schema,
+  current,
+  disabled,
+  onApply,
+  onAuthError,
+}: Props) => {
+  const [request, setRequest] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AiErrorDescription | null>(null);
+  const [proposal, setProposal] = useState<Proposal | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handlePropose = async () => {
+    if (!request.trim() || loading || disabled) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setError(null);
+    setProposal(null);
+
+    try {
+      const reply = await requestView(
+        provider,
+        context,
+        schema,
+        request.trim(),
+        { signal: controller.signal }
+      );
+      const { spec, issues } = reconcileViewSpec(
+        viewRequestToSpec(reply, current),
+        schema
+      );
+      setProposal({ spec, explanation: reply.explanation, issues });
+    } catch (e) {
+      if (!isAbortError(e)) {
+        console.error("View request error:", e);
+        setError(describeAiError(e));
+        if (toAiError(e).kind === "auth") onAuthError();
+      }
+    } finally {
+      abortRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!proposal) return;
+    onApply(proposal.spec);
+    setProposal(null);
+    setRequest("");
+  };
+
+  const spec = proposal?.spec;
+  const aggregated =
+    spec &&
+    (spec.chartType === "pie" ||
+      (spec.groupBy && ["bar", "line", "area"].includes(spec.chartType)));
+  const conditions = spec?.filters.groups.flatMap((g) => g.conditions) ?? [];
+
+  return (
+    <div className="mt-4 bg-indigo-50 p-6 rounded-lg border border-indigo-200 shadow-md">
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center mb-3">
+        <span className="text-lg mr-2">🪄</span>
+        Show Me
+      </h3>
+
+      {error && <AiErrorNotice error={error} className="mb-3 text-sm" />}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={request}
+          onChange={(e) => setRequest(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handlePropose()}
+          placeholder="e.g. average sleep by age group as a bar chart"
+          disabled={disabled}
+          className="flex-1 min-w-0 px-3 py-2 border-2 border-indigo-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm text-gray-900 placeholder-gray-400 disabled:bg-gray-100"
+        />
+        {loading ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-4 py-2 rounded-full text-sm font-semibold bg-red-100 text-red-700 hover:bg-red-200 shadow-md"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handlePropose}
+            disabled={!request.trim() || disabled}
+            className={`px-4 py-2 rounded-full text-sm font-semibold transition-all duration-200
+                  ${
+                    !request.trim() || disabled
+                      ? "bg-gray-200 text-gray-500 cursor-not-allowed"
+                      : "bg-indigo-600 text-white hover:bg-indigo-700 shadow-md"
+                  }`}
+          >
+            Propose
+          </button>
+        )}
+      </div>
+
+      {proposal && spec && (
+        <div className="mt-3 bg-white p-3 rounded-lg border border-indigo-100 shadow-sm text-sm animate-fade-in">
+          <p className="text-gray-800">{proposal.explanation}</p>
+          <ul className="mt-2 text-xs text-gray-600 space-y-0.5">
+            <li>
+              <span className="font-semibold">Chart:</span>{" "}
+              {CHART_TYPES[spec.chartType].label}
+            </li>
+            {CHART_TYPES[spec.chartType].x !== "none" && (
+              <li>
+                <span className="font-semibold">X:</span> {spec.selectedXAxis}
+                {spec.binWidth > 0 && ` (groups of ${spec.binWidth})`}
+              </li>
+            )}
+            <li>
+              <span className="font-semibold">Y:</span>{" "}
+              {spec.selectedKeys.join(", ")}
+            </li>
+            {aggregated && (
+              <li>
+                <span className="font-semibold">Aggregation:</span>{" "}
+                {AGGREGATIONS.find((a) => a.value === spec.aggregation)?.label}
+              </li>
+            )}
+            <li>
+              <span className="font-semibold">Filters:</span>{" "}
+              {conditions.length > 0
+                ? conditions
+                    .map(describeCondition)
+                    .join(
+                      ` ${spec.filters.groups[0].combinator.toUpperCase()} `
+                    )
+                : "none, all rows"}
+            </li>
+          </ul>
+          {proposal.issues.length > 0 && (
+            <ul className="mt-2 text-xs text-yellow-800 list-disc list-inside">
+              {proposal.issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2 mt-3">
+            <button
+              onClick={() => setProposal(null)}
+              className="text-xs text-gray-600 hover:text-gray-800"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleApply}
+              className="px-3 py-1 rounded-full text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-700"
+            >
+              Apply view
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShowMePanel;
@@ -0,0 +1,114 @@
+import { useRef, useState } from "react";
+import { downloadFile } from "../helpers/functions";
+import type { ViewSpec } from "../helpers/viewSpec";
+
+type Props = {
+  spec: ViewSpec;
+  fileName: string;
+  issues: string[];
+  onLoad: (value: unknown) => void;
+  onDismissIssues: () => void;
+};
+
+const buttonClass =
+  "px-3 py-1.5 rounded-full text-xs font-semibold bg-white border border-indigo-200 text-indigo-700 hover:bg-indigo-50";
+
+const ViewSpecPanel = ({
+  spec,
+  fileName,
+  issues,
+  onLoad,
+  onDismissIssues,
+}: Props) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">(
+    "idle"
+  );
+
+  // The clipboard is missing over plain http (a LAN dev server) or denied
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopyState("copied");
+    } catch (e) {
+      console.error("Copy failed", e);
+      setCopyState("failed");
+    }
+    setTimeout(() => setCopyState("idle"), 2000);
+  };
+
+  const loadFile = async (file: File) => {
+    try {
+      onLoad(JSON.parse(await file.text()));
+    } catch {
+      onLoad(undefined);
+    }
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-xs font-medium text-gray-500">View:</span>
+        <button onClick={copyLink} className={buttonClass}>
+          {copyState === "copied"
+            ? "✓ Link copied"
+            : copyState === "failed"
+              ? "⚠️ Copy failed, use the address bar"
+              : "🔗 Copy link"}
+        </button>
+        <button
+          onClick={() =>
+            downloadFile(
+              `${fileName || "view"}.view.json`,
+              JSON.stringify(spec, null, 2),
+              "application/json"
+            )
+          }
+          className={buttonClass}
+        >
+          ⬇️ Download spec
+        </button>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className={buttonClass}
+        >
+          ⬆️ Load spec
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) loadFile(file);
+          }}
+        />
+      </div>
+      {issues.length > 0 && (
+        <div className="mt-2 p-3 rounded-lg border border-amber-200 bg-amber-50 text-xs text-amber-800">
+          <div className="flex justify-between items-start gap-2">
+            <span className="font-semibold">
+              Problems loading the view spec:
+            </span>
+            <button
+              onClick={onDismissIssues}
+              className="px-1 rounded hover:bg-amber-100"
+              title="Dismiss"
+            >
+              ×
+            </button>
+          </div>
+          <ul className="mt-1 list-disc list-inside">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ViewSpecPanel;
@@ -0,0 +1,200 @@
+import { isMissing, sortDataByKey } from "./functions";
+import { median } from "./profile";
+
+export type Aggregation =
+  "sum" | "mean" | "median" | "count" | "min" | "max" | "distinct";
+
+export const AGGREGATIONS: { value: Aggregation; label: string }[] = [
+  { value: "sum", label: "Sum" },
+  { value: "mean", label: "Mean" },
+  { value: "median", label: "Median" },
+  { value: "count", label: "Count" },
+  { value: "min", label: "Min" },
+  { value: "max", label: "Max" },
+  { value: "distinct", label: "Distinct count" },
+];
+
+const round = (value: number) => Number(value.toFixed(3));
+
+export const aggregateValues = (
+  values: (string | number)[],
+  aggregation: Aggregation
+): number => {
+  if (aggregation === "count") return values.length;
+
+  const present = values.filter((v) => !isMissing(v));
+  if (aggregation === "distinct") return new Set(present).size;
+
+  const nums = present.filter((v): v is number => typeof v === "number");
+  if (nums.length === 0) return 0;
+
+  switch (aggregation) {
+    case "sum":
+      return round(nums.reduce((sum, v) => sum + v, 0));
+    case "mean":
+      return round(nums.reduce((sum, v) => sum + v, 0) / nums.length);
+    case "median":
+      return round(median([...nums].sort((a, b) => a - b)));
+    // Reduced rather than spread, large groups overflow the call stack
+    case "min":
+      return nums.reduce((min, v) => (v < min ? v : min), nums[0]);
+    case "max":
+      return nums.reduce((max, v) => (v > max ? v : max), nums[0]);
+  }
+};
+
+/**
+ * Picks a "nice" bin width (1, 2 or 5 times a power of ten) giving roughly
+ * the requested number of bins over the range
+ */
+export const suggestBinWidth = (
+  min: number,
+  max: number,
+  bins: number = 10
+): number => {
+  const raw = (max - min) / bins;
+  if (!isFinite(raw) || raw <= 0) return 1;
+
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const nice = [1, 2, 5, 10].find((m) => m * magnitude >= raw) ?? 10;
+  return nice * magnitude;
+};
+
+// Formats bin edges without floating point noise (0.30000000000000004)
+const formatEdge = (value: number) => String(Number(value.toPrecision(10)));
+
+// Buckets rows by X value, or by [start, start + width) bins for numeric X
+const groupRows = (
+  data: Record<string, string | number>[],
+  xKey: string,
+  binWidth: number
+) => {
+  const groups = new Map<string | number, Record<string, string | number>[]>();
+
+  for (const row of data) {
+    const x = row[xKey];
+    if (isMissing(x)) continue;
+
+    // The epsilon keeps values sitting on an edge (1.2 / 0.1 = 11.999…) in the upper bin
+    const group =
+      binWidth > 0 && typeof x === "number"
+        ? Math.floor(x / binWidth + 1e-9) * binWidth
+        : x;
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group)!.push(row);
+  }
+
+  return groups;
+};
+
+// Sorts on the raw group value so bins stay numeric, then labels the bins
+const sortAndLabel = (
+  rows: Record<string, string | number>[],
+  key: string,
+  binWidth: number
+) =>
+  sortDataByKey(rows, key).map((row) => {
+    const start = row[key];
+    if (binWidth <= 0 || typeof start !== "number") return row;
+    return {
+      ...row,
+      [key]: `${formatEdge(start)}–${formatEdge(start + binWidth)}`,
+    };
+  });
+
+/**
+ * Groups rows by the X column and aggregates each Y column per group. With a
+ * bin width, numeric X values are bucketed into [start, start + width) ranges
+ * for histogram-style output. Rows without an X value are skipped
+ */
+export const aggregateData = (
+  data: Record<string, string | number>[],
+  xKey: string,
+  yKeys: string[],
+  aggregation: Aggregation,
+  binWidth: number = 0
+): Record<string, string | number>[] => {
+  const rows = [...groupRows(data, xKey, binWidth).entries()].map(
+    ([group, members]) => {
+      const row: Record<string, string | number> = { [xKey]: group };
+      for (const yKey of yKeys) {
+        row[yKey] = aggregateValues(
+          members.map((member) => member[yKey]),
+          aggregation
+        );
+      }
+      return row;
+    }
+  );
+
+  return sortAndLabel(rows, xKey, binWidth);
+};
+
+/**
+ * Row counts per bin of a numeric column, as { bin, count } rows
+ */
+export const histogramData = (
+  data: Record<string, string | number>[],
+  xKey: string,
+  binWidth: number
+): Record<string, string | number>[] => {
+  const rows = [...groupRows(data, xKey, binWidth).entries()].map(
+    ([bin, members]) => ({ bin, count: members.length })
+  );
+
+  return sortAndLabel(rows, "bin", binWidth);
+};
+
+export type BoxStats = {
+  group: string;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  count: number;
+};
+
+// Linear-interpolated quantile of an ascending array
+export const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const next = sorted[base + 1] ?? sorted[base];
+  return sorted[base] + (pos - base) * (next - sorted[base]);
+};
+
+/**
+ * Five-number summary of the Y column per X group (or over all rows when no
+ * group column is given), for box plots
+ */
+export const boxPlotData = (
+  data: Record<string, string | number>[],
+  groupKey: string | null,
+  yKey: string
+): BoxStats[] => {
+  const groups = new Map<string, number[]>();
+
+  for (const row of data) {
+    const y = row[yKey];
+    const group = groupKey ? row[groupKey] : "All";
+    if (typeof y !== "number" || isMissing(group)) continue;
+
+    if (!groups.has(String(group))) groups.set(String(group), []);
+    groups.get(String(group))!.push(y);
+  }
+
+  const stats = [...groups.entries()].map(([group, values]) => {
+    const sorted = values.sort((a, b) => a - b);
+    return {
+      group,
+      min: sorted[0],
+      q1: round(quantile(sorted, 0.25)),
+      median: round(quantile(sorted, 0.5)),
+      q3: round(quantile(sorted, 0.75)),
+      max: sorted[sorted.length - 1],
+      count: sorted.length,
+    };
+  });
+
+  return sortDataByKey(stats, "group") as BoxStats[];
+};
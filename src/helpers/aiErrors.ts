@@ -0,0 +1,168 @@
+export type AiErrorKind =
+  | "missing-key"
+  | "auth"
+  | "rate-limited"
+  | "quota"
+  | "context-too-long"
+  | "content-filtered"
+  | "bad-request"
+  | "invalid-output"
+  | "network"
+  | "timeout"
+  | "server";
+
+const KINDS: AiErrorKind[] = [
+  "missing-key",
+  "auth",
+  "rate-limited",
+  "quota",
+  "context-too-long",
+  "content-filtered",
+  "bad-request",
+  "invalid-output",
+  "network",
+  "timeout",
+  "server",
+];
+
+// What went wrong in the user's terms, and what they can do about it
+export const AI_ERROR_HELP: Record<
+  AiErrorKind,
+  { title: string; remedy: string }
+> = {
+  "missing-key": {
+    title: "The AI provider isn't configured on the server.",
+    remedy:
+      "Set OPENAI_API_KEY in the server's .env and restart it, or pick another provider.",
+  },
+  auth: {
+    title: "You're not signed in, or your session has expired.",
+    remedy: "Sign in again at the top of the page.",
+  },
+  "rate-limited": {
+    title: "Too many AI requests right now.",
+    remedy: "Wait a moment, then try again.",
+  },
+  quota: {
+    title: "The AI usage quota is used up.",
+    remedy:
+      "Quotas reset at midnight UTC. Ask the administrator if you need a higher limit.",
+  },
+  "context-too-long": {
+    title: "The prompt is too long for this model.",
+    remedy:
+      "Clear the conversation, filter out columns you don't need, or pick a model with a larger context window.",
+  },
+  "content-filtered": {
+    title: "The provider's content filter blocked this request.",
+    remedy: "Rephrase the question and try again.",
+  },
+  "bad-request": {
+    title: "The provider rejected the request.",
+    remedy: "Check the model name in the provider settings.",
+  },
+  "invalid-output": {
+    title: "The AI's reply didn't have the expected structure.",
+    remedy: "Try again, or pick a model that supports structured JSON output.",
+  },
+  network: {
+    title: "The AI service couldn't be reached.",
+    remedy: "Check your connection and that the provider is running.",
+  },
+  timeout: {
+    title: "The AI took too long to answer.",
+    remedy: "Try again, or pick a faster model.",
+  },
+  server: {
+    title: "The AI service ran into a problem.",
+    remedy: "Try again in a little while.",
+  },
+};
+
+export class AiError extends Error {
+  kind: AiErrorKind;
+  status?: number;
+  // From the Retry-After header of rate-limited responses
+  retryAfterMs?: number;
+
+  constructor(
+    kind: AiErrorKind,
+    message: string,
+    details: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = "AiError";
+    this.kind = kind;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+const kindFromStatus = (status: number): AiErrorKind => {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "rate-limited";
+  if (status === 413) return "context-too-long";
+  if (status >= 400 && status < 500) return "bad-request";
+  return "server";
+};
+
+// Accepts an "HTTP date" as well as the usual number of seconds
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Builds the error for a failed response. The proxy sends { error, code }
+ * with one of the kinds above, other servers are classified by status
+ */
+export const errorFromResponse = async (res: Response): Promise<AiError> => {
+  const body = await res.json().catch(() => null);
+  const kind = KINDS.includes(body?.code)
+    ? body.code
+    : kindFromStatus(res.status);
+  return new AiError(
+    kind,
+    body?.error || `Request failed with status code ${res.status}`,
+    {
+      status: res.status,
+      retryAfterMs: parseRetryAfter(res.headers.get("retry-after")),
+    }
+  );
+};
+
+export const toAiError = (error: unknown): AiError => {
+  if (error instanceof AiError) return error;
+  // fetch() rejects with a TypeError when the request never got an answer
+  if (error instanceof TypeError) return new AiError("network", error.message);
+  return new AiError(
+    "server",
+    error instanceof Error ? error.message : String(error)
+  );
+};
+
+export type AiErrorDescription = {
+  title: string;
+  remedy: string;
+  // The server's own words, when they add something to the title
+  detail?: string;
+};
+
+export const describeAiError = (error: unknown): AiErrorDescription => {
+  const aiError = toAiError(error);
+  const { title, remedy } = AI_ERROR_HELP[aiError.kind];
+  const seconds = Math.ceil((aiError.retryAfterMs ?? 0) / 1000);
+  const waitFor =
+    seconds < 90 ? `${seconds} s` : `${Math.ceil(seconds / 60)} min`;
+  return {
+    title,
+    remedy:
+      aiError.kind === "rate-limited" && aiError.retryAfterMs !== undefined
+        ? `Wait ${waitFor}, then try again.`
+        : remedy,
+    detail: aiError.message !== title ? aiError.message : undefined,
+  };
+};
@@ -0,0 +1,170 @@
+import {
+  AiError,
+  errorFromResponse,
+  toAiError,
+  type AiErrorKind,
+} from "./aiErrors";
+
+export type RequestPolicy = {
+  // Longest wait for the response, and between chunks of a streamed one
+  timeoutMs: number;
+  retries: number;
+  baseDelayMs: number;
+  // Retry-After waits beyond this fail right away instead of blocking the UI
+  maxDelayMs: number;
+};
+
+const envNumber = (value: string | undefined, fallback: number) => {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number >= 0 ? number : fallback;
+};
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: envNumber(import.meta.env.VITE_AI_TIMEOUT_MS, 60000),
+  retries: envNumber(import.meta.env.VITE_AI_RETRIES, 3),
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// Failures that may go away on their own
+const RETRYABLE: AiErrorKind[] = ["rate-limited", "server", "network"];
+
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) abort();
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+
+// Delay before the next attempt, or null when the error should be thrown
+const retryDelay = (error: AiError, attempt: number, policy: RequestPolicy) => {
+  if (!RETRYABLE.includes(error.kind) || attempt >= policy.retries) return null;
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+  }
+  // Exponential backoff with jitter so parallel tabs don't retry in lockstep
+  const backoff = policy.baseDelayMs * 2 ** attempt;
+  return Math.min(policy.maxDelayMs, backoff * (0.5 + Math.random() / 2));
+};
+
+/**
+ * An abort signal that fires when the caller cancels or when `timeoutMs`
+ * pass without a call to `touch`
+ */
+const createDeadline = (timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const cancel = () => controller.abort();
+
+  if (signal?.aborted) cancel();
+  signal?.addEventListener("abort", cancel, { once: true });
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", cancel);
+    },
+  };
+};
+
+/**
+ * POSTs JSON and passes the successful response to `read`. Attempts that
+ * fail before a response arrives are retried with backoff; once `read` has
+ * started, failures are thrown so streamed text is never repeated. Errors
+ * are AiErrors, except the AbortError of a cancelled request
+ */
+export const postJson = async <T>(
+  url: string,
+  body: unknown,
+  read: (res: Response, touch: () => void) => Promise<T>,
+  options: {
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+    policy?: Partial<RequestPolicy>;
+  } = {}
+): Promise<T> => {
+  const policy = { ...DEFAULT_REQUEST_POLICY, ...options.policy };
+  const { signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    const deadline = createDeadline(policy.timeoutMs, signal);
+    let reading = false;
+
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { ...options.headers, "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: deadline.signal,
+      });
+      if (!res.ok) throw await errorFromResponse(res);
+
+      reading = true;
+      return await read(res, deadline.touch);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const error = deadline.timedOut()
+        ? new AiError(
+            "timeout",
+            `No answer within ${Math.round(policy.timeoutMs / 1000)} s.`
+          )
+        : toAiError(err);
+
+      const delay = reading ? null : retryDelay(error, attempt, policy);
+      if (delay === null) throw error;
+      await wait(delay, signal);
+    } finally {
+      deadline.dispose();
+    }
+  }
+};
+
+/**
+ * Reads a streamed response body line by line (SSE and NDJSON are both line
+ * based), calling `touch` on every chunk to keep the deadline from firing
+ */
+export const readLines = async (
+  res: Response,
+  onLine: (line: string) => void,
+  touch: () => void
+): Promise<void> => {
+  if (!res.body) throw new AiError("server", "The response has no body.");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    touch();
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach((line) => line.trim() && onLine(line.trim()));
+  }
+
+  if (buffer.trim()) onLine(buffer.trim());
+};
@@ -0,0 +1,268 @@
+import {
+  aggregateData,
+  boxPlotData,
+  histogramData,
+  suggestBinWidth,
+  type Aggregation,
+} from "./aggregate";
+import {
+  analyzeDataQuality,
+  flaggedRecords,
+  isOutside,
+  type Bounds,
+  type FlaggedRecord,
+  type OutlierMethod,
+  type QualityReport,
+} from "./anomalies";
+import { topSlices, type ChartType } from "./charts";
+import { applyFilters, type FilterState } from "./filters";
+import {
+  isMissing,
+  sampleData,
+  sortDataByKey,
+  type SamplingOptions,
+} from "./functions";
+import {
+  linearRegression,
+  profileDataset,
+  type DatasetProfile,
+} from "./profile";
+import { buildDatasetContext, type DatasetContext } from "./prompts";
+import { isNumericType, type ColumnSchema } from "./schema";
+
+type Row = Record<string, string | number>;
+
+// Flagged scatter points drawn on top of the sampled ones, at most
+const MAX_HIGHLIGHTED_OUTLIERS = 1000;
+
+// Options offered for "is one of" are capped to keep the list usable
+const MAX_DISTINCT_OPTIONS = 50;
+
+// The view the dashboard shows, everything the worker needs to compute it
+export type AnalysisRequest = {
+  filters: FilterState;
+  chartType: ChartType;
+  xKey: string;
+  // Plotted Y columns, only the first for single-series charts
+  seriesKeys: string[];
+  // Rows grouped per X value (pie charts, grouped cartesian charts)
+  aggregated: boolean;
+  aggregation: Aggregation;
+  // As entered, 0 is automatic for histograms and no binning otherwise
+  binWidth: number;
+  // Sampling of the un-aggregated point charts
+  maxPoints: number;
+  sampling: SamplingOptions;
+  showTrendLine: boolean;
+  highlightOutliers: boolean;
+  outlierMethod: OutlierMethod;
+  // Token budget of the AI prompts
+  budget: number;
+};
+
+// What the dashboard shows of the rows, small whatever the row count
+export type Analysis = {
+  rowCount: number;
+  filteredCount: number;
+  // Statistics over every filtered row, for the AI prompts and the heatmap
+  profile: DatasetProfile;
+  // The filtered rows as the AI sees them, trimmed to the token budget
+  context: DatasetContext;
+  // Bin width in use, the suggested one for an automatic histogram
+  binWidth: number;
+  chartRows: Row[];
+  trendLines: Record<string, { slope: number; intercept: number } | null>;
+  // Only individual rows can be outliers, aggregates are left unmarked
+  outliers: { bounds: Record<string, Bounds>; rows: Row[] } | null;
+  // Checks over every loaded row, not just the filtered or sampled ones
+  quality: QualityReport;
+  flagged: FlaggedRecord[];
+  // Values offered per column used with "is one of"
+  distinctValues: Record<string, string[]>;
+};
+
+// One result per kind, recomputed when its key changes
+export type AnalysisCache = Map<string, { key: string; value: unknown }>;
+
+const cached = <T>(
+  cache: AnalysisCache,
+  kind: string,
+  key: string,
+  compute: () => T
+): T => {
+  const hit = cache.get(kind);
+  if (hit?.key === key) return hit.value as T;
+  const value = compute();
+  cache.set(kind, { key, value });
+  return value;
+};
+
+// Point charts sample the rows sorted by X, the others use every row
+const POINT_CHARTS: ChartType[] = ["bar", "line", "area", "scatter"];
+
+export const needsSampling = (chartType: ChartType, aggregated: boolean) =>
+  !aggregated && POINT_CHARTS.includes(chartType);
+
+const chartRows = (
+  cache: AnalysisCache,
+  rows: Row[],
+  filtered: Row[],
+  request: AnalysisRequest,
+  binWidth: number,
+  isXNumeric: boolean
+): Row[] => {
+  const { chartType, xKey, seriesKeys, aggregation, filters } = request;
+  const yKey = seriesKeys[0] ?? "";
+  if (filtered.length === 0 || !xKey) return [];
+
+  switch (chartType) {
+    case "heatmap":
+      return [];
+    case "histogram":
+      return histogramData(filtered, xKey, binWidth);
+    case "box":
+      return boxPlotData(filtered, xKey === yKey ? null : xKey, yKey);
+  }
+
+  // Aggregated views run over every row, so no sampling is needed
+  if (request.aggregated) {
+    const aggregated = aggregateData(
+      filtered,
+      xKey,
+      seriesKeys,
+      aggregation,
+      isXNumeric ? binWidth : 0
+    );
+    return chartType === "pie"
+      ? topSlices(
+          aggregated,
+          xKey,
+          yKey,
+          12,
+          aggregation === "sum" || aggregation === "count"
+        )
+      : aggregated;
+  }
+
+  // Sorting is the expensive step, so it is done once per X column and
+  // filtering (which keeps the order) runs on the sorted rows
+  const sorted = cached(cache, "sorted", xKey, () => sortDataByKey(rows, xKey));
+  const sortedFiltered = cached(
+    cache,
+    "sortedFiltered",
+    JSON.stringify([xKey, filters]),
+    () => applyFilters(sorted, filters)
+  );
+  return sampleData(sortedFiltered, request.maxPoints, request.sampling);
+};
+
+const distinctValues = (rows: Row[], filters: FilterState) => {
+  const result: Record<string, string[]> = {};
+  filters.groups
+    .flatMap((g) => g.conditions)
+    .filter((c) => c.operator === "in" && !(c.column in result))
+    .forEach((c) => {
+      const values = new Set<string>();
+      for (const row of rows) {
+        if (!isMissing(row[c.column])) values.add(String(row[c.column]));
+        if (values.size >= MAX_DISTINCT_OPTIONS) break;
+      }
+      result[c.column] = [...values].sort((a, b) =>
+        a.localeCompare(b, undefined, { numeric: true })
+      );
+    });
+  return result;
+};
+
+/**
+ * Computes the view over the typed rows of the active dataset. Results that
+ * only depend on some of the request (the filtered rows, the profile, the
+ * quality checks) are reused from the cache while those parts stay the same
+ */
+export const analyzeRows = (
+  rows: Row[],
+  schema: ColumnSchema[],
+  request: AnalysisRequest,
+  cache: AnalysisCache
+): Analysis => {
+  const { filters, chartType, xKey, seriesKeys } = request;
+  const filtersKey = JSON.stringify(filters);
+
+  // Chartable columns, excluding User_ID
+  const chartSchema = schema.filter((c) => c.name.toLowerCase() !== "user_id");
+  const isXNumeric = isNumericType(schema.find((c) => c.name === xKey)?.type);
+
+  const filtered = cached(cache, "filtered", filtersKey, () =>
+    applyFilters(rows, filters)
+  );
+  const profile = cached(cache, "profile", filtersKey, () =>
+    profileDataset(filtered, chartSchema)
+  );
+  const context = cached(
+    cache,
+    "context",
+    JSON.stringify([filters, xKey, seriesKeys, request.budget]),
+    () =>
+      buildDatasetContext(profile, filtered, xKey, seriesKeys, request.budget)
+  );
+
+  // Histograms fall back to an automatic bin width until one is entered
+  const column = profile.columns.find((c) => c.name === xKey);
+  const binWidth =
+    request.binWidth > 0 || chartType !== "histogram"
+      ? request.binWidth
+      : suggestBinWidth(column?.min ?? 0, column?.max ?? 0);
+
+  // One least-squares fit per scatter series, over every row
+  const trendLines =
+    chartType === "scatter" && request.showTrendLine
+      ? Object.fromEntries(
+          seriesKeys.map((key) => [key, linearRegression(filtered, xKey, key)])
+        )
+      : {};
+
+  const quality = cached(cache, "quality", request.outlierMethod, () =>
+    analyzeDataQuality(rows, schema, request.outlierMethod)
+  );
+  const flagged = cached(cache, "flagged", request.outlierMethod, () =>
+    flaggedRecords(rows, quality.issues)
+  );
+
+  let outliers: Analysis["outliers"] = null;
+  if (
+    request.highlightOutliers &&
+    !request.aggregated &&
+    ["bar", "line", "scatter"].includes(chartType)
+  ) {
+    const keys = chartType === "scatter" ? [xKey, ...seriesKeys] : seriesKeys;
+    const bounds = Object.fromEntries(
+      keys.flatMap((key) =>
+        quality.bounds[key] ? [[key, quality.bounds[key]]] : []
+      )
+    );
+    const flaggedRows =
+      chartType === "scatter"
+        ? sampleData(
+            filtered.filter((row) =>
+              keys.some((key) => isOutside(row[key], bounds[key]))
+            ),
+            MAX_HIGHLIGHTED_OUTLIERS
+          )
+        : [];
+    outliers = { bounds, rows: flaggedRows };
+  }
+
+  return {
+    rowCount: rows.length,
+    filteredCount: filtered.length,
+    profile,
+    context,
+    binWidth,
+    chartRows: chartRows(cache, rows, filtered, request, binWidth, isXNumeric),
+    trendLines,
+    outliers,
+    quality,
+    flagged,
+    distinctValues: distinctValues(rows, filters),
+  };
+};
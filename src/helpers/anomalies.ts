@@ -0,0 +1,329 @@
+import { quantile } from "./aggregate";
+import { isMissing } from "./functions";
+import { median } from "./profile";
+import { isNumericType, type ColumnSchema } from "./schema";
+
+type Row = Record<string, string | number>;
+
+export type OutlierMethod = "iqr" | "zscore" | "mad";
+
+export const OUTLIER_METHODS: { value: OutlierMethod; label: string }[] = [
+  { value: "iqr", label: "IQR (beyond 1.5 × IQR)" },
+  { value: "zscore", label: "z-score (|z| > 3)" },
+  { value: "mad", label: "MAD (modified z > 3.5)" },
+];
+
+// Values outside [low, high] are outliers
+export type Bounds = { low: number; high: number };
+
+export type IssueKind = "outlier" | "duplicate" | "impossible" | "missing";
+
+export type QualityIssue = {
+  kind: IssueKind;
+  // The column the issue is about, missing for row-level issues
+  column?: string;
+  message: string;
+  // Rows affected in total
+  count: number;
+  // Indexes into the analysed rows, at most MAX_ISSUE_ROWS of them
+  rows: number[];
+};
+
+export type QualityReport = {
+  method: OutlierMethod;
+  rowCount: number;
+  // Outlier bounds per numeric column, also used to highlight the chart
+  bounds: Record<string, Bounds>;
+  issues: QualityIssue[];
+};
+
+// Enough example rows per issue to explain it without sending everything
+const MAX_ISSUE_ROWS = 20;
+// Columns need this many values before their spread means anything
+const MIN_VALUES = 5;
+// Missing-value combinations reported, most common first
+const MAX_MISSING_PATTERNS = 3;
+// Scales MAD to the standard deviation for normally distributed data
+const MAD_SCALE = 0.6745;
+
+const round = (value: number) => Number(value.toFixed(3));
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// User_ID, order_id, "Customer ID"…: identifiers, not measurements
+const isIdColumn = (name: string) => /(^|[_\s])id$/i.test(name);
+
+const numericBounds = (
+  values: number[],
+  method: OutlierMethod
+): Bounds | null => {
+  if (values.length < MIN_VALUES) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+
+  switch (method) {
+    case "iqr": {
+      const [q1, q3] = [quantile(sorted, 0.25), quantile(sorted, 0.75)];
+      const iqr = q3 - q1;
+      return iqr > 0
+        ? { low: round(q1 - 1.5 * iqr), high: round(q3 + 1.5 * iqr) }
+        : null;
+    }
+    case "zscore": {
+      const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+      const sd = Math.sqrt(
+        sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length
+      );
+      return sd > 0
+        ? { low: round(mean - 3 * sd), high: round(mean + 3 * sd) }
+        : null;
+    }
+    case "mad": {
+      const center = median(sorted);
+      const mad = median(
+        sorted.map((v) => Math.abs(v - center)).sort((a, b) => a - b)
+      );
+      const spread = (3.5 * mad) / MAD_SCALE;
+      return mad > 0
+        ? { low: round(center - spread), high: round(center + spread) }
+        : null;
+    }
+  }
+};
+
+export const isOutside = (value: unknown, bounds: Bounds | undefined) =>
+  typeof value === "number" &&
+  !!bounds &&
+  (value < bounds.low || value > bounds.high);
+
+// "sleepHours_perDay" as "sleep hours per day", for the rules to match words
+const nameWords = (name: string) =>
+  name
+    .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+    .replace(/[_\W]+/g, (sep) => (sep.includes("%") ? " % " : " "))
+    .trim()
+    .toLowerCase();
+
+// Values no measurement of this kind can take, matched by whole words of the
+// column name so "usage" or "page" aren't taken for an age
+const IMPOSSIBLE_RULES: {
+  column: RegExp;
+  invalid: (value: number) => boolean;
+  reason: string;
+}[] = [
+  {
+    column:
+      /\b(age|hours?|minutes?|count|duration|time|weight|height|bmi|price|steps)\b/,
+    invalid: (v) => v < 0,
+    reason: "is negative",
+  },
+  { column: /\bage$/, invalid: (v) => v > 120, reason: "is over 120" },
+  {
+    column: /^(?=.*\bhours?\b)(?=.*\b(day|daily|sleep)\b)/,
+    invalid: (v) => v > 24,
+    reason: "is more than 24 hours a day",
+  },
+  {
+    column: /\b(percent(age)?|pct)\b|%/,
+    invalid: (v) => v < 0 || v > 100,
+    reason: "is outside 0–100%",
+  },
+];
+
+const outlierIssues = (
+  rows: Row[],
+  bounds: Record<string, Bounds>
+): QualityIssue[] =>
+  Object.entries(bounds).flatMap(([name, columnBounds]) => {
+    const flagged = rows.flatMap((row, i) =>
+      isOutside(row[name], columnBounds) ? [i] : []
+    );
+    if (flagged.length === 0) return [];
+    return [
+      {
+        kind: "outlier" as const,
+        column: name,
+        message: `${plural(flagged.length, "value")} outside ${columnBounds.low} to ${columnBounds.high}`,
+        count: flagged.length,
+        rows: flagged.slice(0, MAX_ISSUE_ROWS),
+      },
+    ];
+  });
+
+const impossibleIssues = (
+  rows: Row[],
+  columns: ColumnSchema[]
+): QualityIssue[] =>
+  columns.flatMap(({ name }) =>
+    IMPOSSIBLE_RULES.filter((rule) =>
+      rule.column.test(nameWords(name))
+    ).flatMap((rule) => {
+      const flagged = rows.flatMap((row, i) => {
+        const value = row[name];
+        return typeof value === "number" && rule.invalid(value) ? [i] : [];
+      });
+      if (flagged.length === 0) return [];
+      return [
+        {
+          kind: "impossible" as const,
+          column: name,
+          message: `${plural(flagged.length, "value")} where ${name.replace(/_/g, " ")} ${rule.reason}`,
+          count: flagged.length,
+          rows: flagged.slice(0, MAX_ISSUE_ROWS),
+        },
+      ];
+    })
+  );
+
+const duplicateIssues = (
+  rows: Row[],
+  schema: ColumnSchema[]
+): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+  const idColumns = schema.filter((c) => isIdColumn(c.name));
+  const content = schema.filter((c) => !isIdColumn(c.name));
+
+  // Identical records, ignoring ids since a re-entered row gets a new one
+  const seen = new Set<string>();
+  const repeats = rows.flatMap((row, i) => {
+    const key = JSON.stringify(content.map((c) => row[c.name]));
+    if (seen.has(key)) return [i];
+    seen.add(key);
+    return [];
+  });
+  if (repeats.length > 0 && content.length > 0) {
+    const ignoring = idColumns.length
+      ? ` (ignoring ${idColumns.map((c) => c.name).join(", ")})`
+      : "";
+    issues.push({
+      kind: "duplicate",
+      message: `${plural(repeats.length, "row")} repeating an earlier row${ignoring}`,
+      count: repeats.length,
+      rows: repeats.slice(0, MAX_ISSUE_ROWS),
+    });
+  }
+
+  for (const { name } of idColumns) {
+    const ids = new Set<string | number>();
+    const reused = rows.flatMap((row, i) => {
+      const id = row[name];
+      if (isMissing(id)) return [];
+      if (ids.has(id)) return [i];
+      ids.add(id);
+      return [];
+    });
+    if (reused.length === 0) continue;
+    issues.push({
+      kind: "duplicate",
+      column: name,
+      message: `${plural(reused.length, "row")} reusing an earlier ${name}`,
+      count: reused.length,
+      rows: reused.slice(0, MAX_ISSUE_ROWS),
+    });
+  }
+  return issues;
+};
+
+const missingIssues = (rows: Row[], schema: ColumnSchema[]): QualityIssue[] => {
+  // Rows grouped by the exact set of columns they miss
+  const patterns = new Map<string, number[]>();
+  const sparse: number[] = [];
+  rows.forEach((row, i) => {
+    const missing = schema.filter((c) => isMissing(row[c.name]));
+    if (missing.length === 0) return;
+    if (missing.length > schema.length / 2) sparse.push(i);
+    const key = missing.map((c) => c.name).join(", ");
+    const indexes = patterns.get(key);
+    if (indexes) indexes.push(i);
+    else patterns.set(key, [i]);
+  });
+
+  const issues: QualityIssue[] = [...patterns.entries()]
+    .sort((a, b) => b[1].length - a[1].length)
+    .slice(0, MAX_MISSING_PATTERNS)
+    .map(([columns, indexes]) => ({
+      kind: "missing",
+      message: `${plural(indexes.length, "row")} missing ${columns}${
+        columns.includes(",") ? " together" : ""
+      }`,
+      count: indexes.length,
+      rows: indexes.slice(0, MAX_ISSUE_ROWS),
+    }));
+  if (sparse.length > 0) {
+    issues.push({
+      kind: "missing",
+      message: `${plural(sparse.length, "row")} missing more than half of their fields`,
+      count: sparse.length,
+      rows: sparse.slice(0, MAX_ISSUE_ROWS),
+    });
+  }
+  return issues;
+};
+
+/**
+ * Rule-based data quality checks over every row: outliers per numeric column
+ * by the chosen method, duplicate records and ids, values a column can't
+ * hold and the most common missing-value patterns. The same rows always
+ * give the same report
+ */
+export const analyzeDataQuality = (
+  rows: Row[],
+  schema: ColumnSchema[],
+  method: OutlierMethod
+): QualityReport => {
+  const measures = schema.filter(
+    (c) => isNumericType(c.type) && !isIdColumn(c.name)
+  );
+  const bounds: Record<string, Bounds> = {};
+  for (const { name } of measures) {
+    const values = rows
+      .map((row) => row[name])
+      .filter((v): v is number => typeof v === "number");
+    const columnBounds = numericBounds(values, method);
+    if (columnBounds) bounds[name] = columnBounds;
+  }
+
+  return {
+    method,
+    rowCount: rows.length,
+    bounds,
+    issues: [
+      ...outlierIssues(rows, bounds),
+      ...impossibleIssues(rows, measures),
+      ...duplicateIssues(rows, schema),
+      ...missingIssues(rows, schema),
+    ],
+  };
+};
+
+// One flagged row, kept apart from its values so no column can shadow them
+export type FlaggedRecord = {
+  // 1-based position in the analysed rows
+  row: number;
+  values: Row;
+  // What was found in it, one note per issue
+  issues: string[];
+};
+
+/**
+ * The example rows of the given issues, each with what was found in it. Rows
+ * come in the order of the issues, so outliers and impossible values lead
+ * when a budget cuts the list short
+ */
+export const flaggedRecords = (
+  rows: Row[],
+  issues: QualityIssue[]
+): FlaggedRecord[] => {
+  const notes = new Map<number, string[]>();
+  for (const issue of issues) {
+    const note = issue.column ? `${issue.kind} in ${issue.column}` : issue.kind;
+    for (const index of issue.rows) {
+      notes.set(index, [...(notes.get(index) ?? []), note]);
+    }
+  }
+  return [...notes.entries()].map(([index, found]) => ({
+    row: index + 1,
+    values: rows[index],
+    issues: found,
+  }));
+};
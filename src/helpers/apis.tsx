@@ -1,98 +1,157 @@
-import axios from "axios";
+import { AiError } from "./aiErrors";
+import type { FlaggedRecord, QualityReport } from "./anomalies";
+import { insightsFormat, type DataInsights } from "./insights";
+import {
+  chatCompletion,
+  type ChatMessage,
+  type CompletionOptions,
+  type ProviderConfig,
+} from "./providers";
+import {
+  anomalyMessages,
+  questionMessages,
+  refineMessages,
+  summaryMessages,
+  viewRequestMessages,
+  type DatasetContext,
+} from "./prompts";
+import { REFINEMENT_FORMAT, type MessageRefinement, type Tone } from "./refine";
+import type { ColumnSchema } from "./schema";
+import { parseStructured, type StructuredFormat } from "./structured";
+import { viewRequestFormat, type ViewRequest } from "./viewRequest";
+
+// Invalid replies are sent back with the errors this many times in total
+const STRUCTURED_ATTEMPTS = 2;
 
 /**
- * Fetches AI summary analysis of the dataset
+ * Asks for a reply matching `format` using the provider's structured output
+ * mode. A reply that still fails validation is returned to the model with
+ * the list of problems for another try, then an "invalid-output" AiError
  */
-export const fetchAiDataSummary = async (
-  data: Record<string, string | number>[],
-  selectedXAxis: string,
-  selectedKey: string
-): Promise<string> => {
-  const apiKey = import.meta.env.VITE_OPENAI_KEY || "";
+export const completeStructured = async <T,>(
+  provider: ProviderConfig,
+  messages: ChatMessage[],
+  format: StructuredFormat<T>,
+  options: Omit<CompletionOptions, "onToken" | "format"> = {}
+): Promise<T> => {
+  let conversation = messages;
+  let errors: string[] = [];
 
-  if (!apiKey) {
-    throw new Error(
-      "OpenAI API Key is missing. Check your environment configuration."
-    );
-  }
+  for (let attempt = 0; attempt < STRUCTURED_ATTEMPTS; attempt++) {
+    const reply = await chatCompletion(provider, conversation, {
+      ...options,
+      format,
+    });
+    const result = parseStructured(reply, format);
+    if (result.ok) return result.value;
 
-  const res = await axios.post(
-    "https://api.openai.com/v1/chat/completions",
-    {
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a concise data analyst. Analyze the provided JSON statistics from a survey on digital well-being. Summarize the most essential parts of the analysis in one sentence.",
-        },
-        {
-          role: "user",
-          content: `Analyze the data focusing on the relationship between ${selectedXAxis.replace(
-            /_/g,
-            " "
-          )} and ${selectedKey.replace(
-            /_/g,
-            " "
-          )}. Summarize key trends and patterns: ${JSON.stringify(
-            data,
-            null,
-            2
-          )}`,
-        },
-      ],
-    },
-    {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
+    errors = result.errors;
+    conversation = [
+      ...messages,
+      { role: "assistant", content: reply },
+      {
+        role: "user",
+        content: `That reply is invalid (${errors.slice(0, 10).join("; ")}). Reply again with only a JSON object matching the schema.`,
       },
-    }
-  );
+    ];
+  }
 
-  return res.data.choices[0]?.message?.content || "No summary generated.";
+  throw new AiError(
+    "invalid-output",
+    `Problems in the reply: ${errors.slice(0, 3).join("; ")}`
+  );
 };
 
 /**
- * Asks a custom question about the dataset
+ * Fetches AI insights about the dataset, described within the token budget
+ * by buildDatasetContext. Suggested charts only use the schema's columns
+ */
+export const fetchAiDataSummary = (
+  provider: ProviderConfig,
+  context: DatasetContext,
+  schema: ColumnSchema[],
+  selectedXAxis: string,
+  selectedKeys: string[],
+  options: Omit<CompletionOptions, "onToken" | "format"> = {}
+): Promise<DataInsights> =>
+  completeStructured(
+    provider,
+    summaryMessages(context, selectedXAxis, selectedKeys),
+    insightsFormat(schema),
+    options
+  );
+
+/**
+ * Asks the model to configure the dashboard for a "show me…" request. The
+ * reply only names the schema's columns, but still needs confirming
+ */
+export const requestView = (
+  provider: ProviderConfig,
+  context: DatasetContext,
+  schema: ColumnSchema[],
+  request: string,
+  options: Omit<CompletionOptions, "onToken" | "format"> = {}
+): Promise<ViewRequest> =>
+  completeStructured(
+    provider,
+    viewRequestMessages(context, request),
+    viewRequestFormat(schema),
+    options
+  );
+
+/**
+ * Continues a conversation about the dataset. The dataset is sent once as
+ * context, followed by as many prior turns as the budget allows so
+ * follow-up questions make sense
  */
 export const askAiQuestion = async (
-  question: string,
-  data: Record<string, string | number>[]
+  provider: ProviderConfig,
+  conversation: ChatMessage[],
+  context: DatasetContext,
+  options: CompletionOptions = {}
 ): Promise<string> => {
-  const apiKey = import.meta.env.VITE_OPENAI_KEY || "";
+  const content = await chatCompletion(
+    provider,
+    questionMessages(context, conversation).messages,
+    options
+  );
 
-  if (!apiKey) {
-    throw new Error(
-      "OpenAI API Key is missing. Check your environment configuration."
-    );
-  }
+  return content || "No answer generated.";
+};
 
-  const res = await axios.post(
-    "https://api.openai.com/v1/chat/completions",
-    {
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a helpful data analyst. Answer questions about the provided dataset in maximum 2 phrases. Be extremely concise and direct.",
-        },
-        {
-          role: "user",
-          content: `Dataset: ${JSON.stringify(data.slice(0, 50))}
-                    
-Question: ${question}`,
-        },
-      ],
-    },
-    {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-    }
+/**
+ * Explains the records the data quality checks flagged. Only those records
+ * are sent, not the dataset
+ */
+export const explainAnomalies = async (
+  provider: ProviderConfig,
+  report: QualityReport,
+  records: FlaggedRecord[],
+  budget: number,
+  options: CompletionOptions = {}
+): Promise<string> => {
+  const content = await chatCompletion(
+    provider,
+    anomalyMessages(report, records, budget).messages,
+    options
   );
 
-  return res.data.choices[0]?.message?.content || "No answer generated.";
+  return content || "No explanation generated.";
 };
+
+/**
+ * Reviews a message for completeness, tone and clarity and rewrites it in
+ * the chosen tone
+ */
+export const refineMessage = (
+  provider: ProviderConfig,
+  message: string,
+  tone: Tone,
+  options: Omit<CompletionOptions, "onToken" | "format"> = {}
+): Promise<MessageRefinement> =>
+  completeStructured(
+    provider,
+    refineMessages(message, tone),
+    REFINEMENT_FORMAT,
+    options
+  );
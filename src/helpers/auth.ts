@@ -0,0 +1,65 @@
+import axios from "axios";
+
+export type Account = {
+  user: string;
+  usage: { requests: number; tokens: number };
+  limits: {
+    requestsPerMinute: number;
+    dailyRequests: number;
+    dailyTokens: number;
+  };
+};
+
+// Session token from the AI proxy, kept so a reload stays signed in
+const TOKEN_KEY = "ai-mini:authToken";
+
+export const getAuthToken = () => localStorage.getItem(TOKEN_KEY) ?? "";
+
+export const authHeaders = (): Record<string, string> => {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+/**
+ * The server's { error } message of a failed request, else the error's own
+ */
+export const apiErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    return error.response.data.error;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// The signed-in account, or null when there is no valid session
+export const fetchAccount = async (): Promise<Account | null> => {
+  if (!getAuthToken()) return null;
+  try {
+    const res = await axios.get<Account>("/api/account", {
+      headers: authHeaders(),
+    });
+    return res.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      localStorage.removeItem(TOKEN_KEY);
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const signIn = async (username: string, password: string) => {
+  const res = await axios.post<{ token: string }>("/api/login", {
+    username,
+    password,
+  });
+  localStorage.setItem(TOKEN_KEY, res.data.token);
+  return fetchAccount();
+};
+
+export const signOut = async () => {
+  try {
+    await axios.post("/api/logout", {}, { headers: authHeaders() });
+  } finally {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+};
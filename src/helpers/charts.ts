@@ -0,0 +1,113 @@
+import { isNumericType, type ColumnSchema } from "./schema";
+
+export type ChartType =
+  "bar" | "line" | "area" | "scatter" | "pie" | "histogram" | "box" | "heatmap";
+
+// Which kind of column an axis accepts; "none" hides the selector
+type AxisKind = "any" | "numeric" | "categorical" | "none";
+
+type ChartMeta = {
+  label: string;
+  x: AxisKind;
+  y: "numeric" | "none";
+  // Whether several Y columns can be plotted as separate series
+  multiSeries: boolean;
+};
+
+export const CHART_TYPES: Record<ChartType, ChartMeta> = {
+  bar: { label: "📊 Bar Chart", x: "any", y: "numeric", multiSeries: true },
+  line: { label: "📈 Line Chart", x: "any", y: "numeric", multiSeries: true },
+  area: { label: "🏔️ Stacked Area", x: "any", y: "numeric", multiSeries: true },
+  scatter: {
+    label: "✴️ Scatter Plot",
+    x: "numeric",
+    y: "numeric",
+    multiSeries: true,
+  },
+  pie: {
+    label: "🥧 Pie / Donut",
+    x: "categorical",
+    y: "numeric",
+    multiSeries: false,
+  },
+  histogram: {
+    label: "📶 Histogram",
+    x: "numeric",
+    y: "none",
+    multiSeries: false,
+  },
+  box: {
+    label: "📦 Box Plot",
+    x: "categorical",
+    y: "numeric",
+    multiSeries: false,
+  },
+  heatmap: {
+    label: "🔥 Correlation Heatmap",
+    x: "none",
+    y: "none",
+    multiSeries: false,
+  },
+};
+
+/**
+ * Columns usable on the X axis for a chart type. Categorical axes take
+ * anything that isn't numeric (categories, booleans, dates, text)
+ */
+export const acceptedXColumns = (
+  chartType: ChartType,
+  schema: ColumnSchema[]
+): ColumnSchema[] => {
+  const kind = CHART_TYPES[chartType].x;
+  if (kind === "numeric") return schema.filter((c) => isNumericType(c.type));
+  if (kind === "categorical") {
+    return schema.filter((c) => !isNumericType(c.type) && c.type !== "text");
+  }
+  return kind === "none" ? [] : schema;
+};
+
+/**
+ * Keeps the current X/Y selection when it suits the chart type, otherwise
+ * falls back to the first accepted column (avoiding X === Y where possible)
+ */
+export const pickColumnsForChart = (
+  chartType: ChartType,
+  schema: ColumnSchema[],
+  current: { x: string; y: string }
+): { x: string; y: string } => {
+  const numeric = schema.filter((c) => isNumericType(c.type));
+  const y =
+    CHART_TYPES[chartType].y === "numeric" &&
+    !numeric.some((c) => c.name === current.y)
+      ? (numeric[0]?.name ?? current.y)
+      : current.y;
+
+  const accepted = acceptedXColumns(chartType, schema);
+  if (accepted.length === 0 || accepted.some((c) => c.name === current.x)) {
+    return { x: current.x, y };
+  }
+
+  const x = accepted.find((c) => c.name !== y) ?? accepted[0];
+  return { x: x.name, y };
+};
+
+/**
+ * Keeps the largest pie slices. For additive values (sums, counts) the rest
+ * are merged into an "Other" slice so the shares still add up
+ */
+export const topSlices = (
+  rows: Record<string, string | number>[],
+  xKey: string,
+  yKey: string,
+  limit: number,
+  additive: boolean
+): Record<string, string | number>[] => {
+  const sorted = [...rows].sort((a, b) => Number(b[yKey]) - Number(a[yKey]));
+  if (sorted.length <= limit) return sorted;
+  if (!additive) return sorted.slice(0, limit);
+
+  const rest = sorted
+    .slice(limit - 1)
+    .reduce((sum, row) => sum + Number(row[yKey]), 0);
+  return [...sorted.slice(0, limit - 1), { [xKey]: "Other", [yKey]: rest }];
+};
@@ -0,0 +1,420 @@
+import { renameColumnReferences } from "./expressions";
+import { median } from "./profile";
+import { parseNumber, type ColumnSchema } from "./schema";
+
+type SourceRow = Record<string, string>;
+
+export type CaseStyle = "lower" | "upper" | "title" | "common";
+
+export const CASE_STYLES: { value: CaseStyle; label: string }[] = [
+  { value: "common", label: "Most common spelling" },
+  { value: "lower", label: "lower case" },
+  { value: "upper", label: "UPPER CASE" },
+  { value: "title", label: "Title Case" },
+];
+
+export type FillMethod = "value" | "mean" | "median" | "mode";
+
+export const FILL_METHODS: { value: FillMethod; label: string }[] = [
+  { value: "value", label: "a fixed value" },
+  { value: "mean", label: "the mean" },
+  { value: "median", label: "the median" },
+  { value: "mode", label: "the most common value" },
+];
+
+// One recorded operation, replayed in order over the rows as they were loaded
+export type CleaningStep =
+  | { kind: "trim"; columns: string[] }
+  | { kind: "normalizeMissing"; columns: string[] }
+  | { kind: "dedupe" }
+  | { kind: "fillMissing"; column: string; method: FillMethod; value: string }
+  | { kind: "dropMissing"; columns: string[] }
+  | { kind: "case"; columns: string[]; style: CaseStyle }
+  | { kind: "rename"; from: string; to: string }
+  | { kind: "drop"; column: string };
+
+// Problems found in one column of the raw (string) rows
+export type ColumnIssues = {
+  column: string;
+  // Blank cells
+  empty: number;
+  // Cells spelling out a missing value ("N/A", "null", "-", …)
+  missingTokens: number;
+  // Cells with leading or trailing whitespace
+  whitespace: number;
+  // Values that also appear with different capitalisation
+  casingVariants: number;
+};
+
+export type CleaningIssues = {
+  rowCount: number;
+  // Rows identical to an earlier row in every column
+  duplicates: number;
+  columns: ColumnIssues[];
+};
+
+export const MISSING_TOKENS = [
+  "n/a",
+  "na",
+  "#n/a",
+  "null",
+  "none",
+  "nan",
+  "missing",
+  "-",
+  "--",
+  "?",
+];
+
+const isBlank = (value: string | undefined) => (value ?? "").trim() === "";
+
+const isMissingToken = (value: string | undefined) =>
+  MISSING_TOKENS.includes((value ?? "").trim().toLowerCase());
+
+const rowKey = (row: SourceRow, columns: string[]) =>
+  JSON.stringify(columns.map((c) => row[c] ?? ""));
+
+const titleCase = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/(^|\s)(\S)/g, (_, space, c) => space + c.toUpperCase());
+
+// Each lower-cased value mapped to the spelling used most often
+const commonSpellings = (rows: SourceRow[], column: string) => {
+  const counts = new Map<string, Map<string, number>>();
+  for (const row of rows) {
+    const value = row[column] ?? "";
+    const key = value.toLowerCase();
+    const spellings = counts.get(key) ?? new Map<string, number>();
+    spellings.set(value, (spellings.get(value) ?? 0) + 1);
+    counts.set(key, spellings);
+  }
+  return new Map(
+    [...counts].map(([key, spellings]) => [
+      key,
+      [...spellings].sort((a, b) => b[1] - a[1])[0][0],
+    ])
+  );
+};
+
+const fillValue = (
+  rows: SourceRow[],
+  column: string,
+  method: FillMethod,
+  value: string
+): string | null => {
+  const present = rows
+    .map((row) => (row[column] ?? "").trim())
+    .filter((v) => v !== "");
+
+  switch (method) {
+    case "value":
+      return value;
+    case "mode": {
+      const counts = new Map<string, number>();
+      for (const v of present) counts.set(v, (counts.get(v) ?? 0) + 1);
+      return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+    }
+    default: {
+      const numbers = present
+        .map(parseNumber)
+        .filter((n): n is number => n !== null)
+        .sort((a, b) => a - b);
+      if (numbers.length === 0) return null;
+      const result =
+        method === "mean"
+          ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length
+          : median(numbers);
+      return String(Number(result.toFixed(4)));
+    }
+  }
+};
+
+const mapColumns = (
+  rows: SourceRow[],
+  columns: string[],
+  map: (value: string, column: string) => string
+) =>
+  rows.map((row) => {
+    const next = { ...row };
+    for (const column of columns) next[column] = map(row[column] ?? "", column);
+    return next;
+  });
+
+/**
+ * Applies one step to the raw rows. Steps naming columns that no longer
+ * exist (after a rename or drop further up) leave those columns alone, and
+ * a rename to a taken name (`reserved` holds the computed columns) is skipped
+ */
+export const applyCleaningStep = (
+  rows: SourceRow[],
+  columns: string[],
+  step: CleaningStep,
+  reserved: string[] = []
+): { rows: SourceRow[]; columns: string[] } => {
+  const existing = (names: string[]) =>
+    names.filter((name) => columns.includes(name));
+
+  switch (step.kind) {
+    case "trim":
+      return {
+        rows: mapColumns(rows, existing(step.columns), (v) => v.trim()),
+        columns,
+      };
+    case "normalizeMissing":
+      return {
+        rows: mapColumns(rows, existing(step.columns), (v) =>
+          isMissingToken(v) ? "" : v
+        ),
+        columns,
+      };
+    case "dedupe": {
+      const seen = new Set<string>();
+      return {
+        rows: rows.filter((row) => {
+          const key = rowKey(row, columns);
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        }),
+        columns,
+      };
+    }
+    case "fillMissing": {
+      if (!columns.includes(step.column)) return { rows, columns };
+      const fill = fillValue(rows, step.column, step.method, step.value);
+      if (fill === null) return { rows, columns };
+      return {
+        rows: mapColumns(rows, [step.column], (v) => (isBlank(v) ? fill : v)),
+        columns,
+      };
+    }
+    case "dropMissing": {
+      const names = existing(step.columns);
+      return {
+        rows: rows.filter((row) => names.every((c) => !isBlank(row[c]))),
+        columns,
+      };
+    }
+    case "case": {
+      const names = existing(step.columns);
+      if (step.style === "common") {
+        const spellings = new Map(
+          names.map((c) => [c, commonSpellings(rows, c)])
+        );
+        return {
+          rows: mapColumns(
+            rows,
+            names,
+            (v, c) => spellings.get(c)?.get(v.toLowerCase()) ?? v
+          ),
+          columns,
+        };
+      }
+      const convert = {
+        lower: (v: string) => v.toLowerCase(),
+        upper: (v: string) => v.toUpperCase(),
+        title: titleCase,
+      }[step.style];
+      return { rows: mapColumns(rows, names, convert), columns };
+    }
+    case "rename": {
+      if (
+        !columns.includes(step.from) ||
+        columns.includes(step.to) ||
+        reserved.includes(step.to)
+      ) {
+        return { rows, columns };
+      }
+      const renamed = columns.map((c) => (c === step.from ? step.to : c));
+      return {
+        rows: rows.map((row) =>
+          Object.fromEntries(columns.map((c, i) => [renamed[i], row[c] ?? ""]))
+        ),
+        columns: renamed,
+      };
+    }
+    case "drop":
+      return {
+        rows: rows.map((row) => {
+          const next = { ...row };
+          delete next[step.column];
+          return next;
+        }),
+        columns: columns.filter((c) => c !== step.column),
+      };
+  }
+};
+
+// Replays the steps over the rows as they were loaded
+export const applyCleaning = (
+  rows: SourceRow[],
+  columns: string[],
+  steps: CleaningStep[],
+  reserved: string[] = []
+) =>
+  steps.reduce(
+    (current, step) =>
+      applyCleaningStep(current.rows, current.columns, step, reserved),
+    { rows, columns }
+  );
+
+// Names of the computed columns, which a rename must not take
+export const computedNames = (schema: ColumnSchema[]) =>
+  schema.filter((c) => c.expression !== undefined).map((c) => c.name);
+
+/**
+ * Counts what the cleaning steps can fix, per column of the raw rows. Typing
+ * trims and drops unparsable values later, so these only show up here
+ */
+export const findCleaningIssues = (
+  rows: SourceRow[],
+  columns: string[]
+): CleaningIssues => {
+  const seen = new Set<string>();
+  let duplicates = 0;
+  for (const row of rows) {
+    const key = rowKey(row, columns);
+    if (seen.has(key)) duplicates++;
+    else seen.add(key);
+  }
+
+  return {
+    rowCount: rows.length,
+    duplicates,
+    columns: columns.map((column) => {
+      let empty = 0;
+      let missingTokens = 0;
+      let whitespace = 0;
+      // Distinct spellings per lower-cased value
+      const spellings = new Map<string, Set<string>>();
+      for (const row of rows) {
+        const value = row[column] ?? "";
+        if (isBlank(value)) {
+          empty++;
+          continue;
+        }
+        if (isMissingToken(value)) missingTokens++;
+        if (value !== value.trim()) whitespace++;
+        const trimmed = value.trim();
+        const key = trimmed.toLowerCase();
+        if (key === trimmed.toUpperCase()) continue;
+        const variants = spellings.get(key) ?? new Set<string>();
+        variants.add(trimmed);
+        spellings.set(key, variants);
+      }
+      let casingVariants = 0;
+      for (const variants of spellings.values()) {
+        if (variants.size > 1) casingVariants += variants.size;
+      }
+      return { column, empty, missingTokens, whitespace, casingVariants };
+    }),
+  };
+};
+
+/**
+ * The renames to apply to column names when moving from one list of steps
+ * to another: undone renames are reversed, newly added ones applied
+ */
+export const renamesBetween = (
+  previous: CleaningStep[],
+  next: CleaningStep[]
+): [string, string][] => {
+  let shared = 0;
+  while (
+    shared < previous.length &&
+    shared < next.length &&
+    JSON.stringify(previous[shared]) === JSON.stringify(next[shared])
+  ) {
+    shared++;
+  }
+  const renames = (steps: CleaningStep[]) =>
+    steps.flatMap((step) =>
+      step.kind === "rename" ? [[step.from, step.to] as [string, string]] : []
+    );
+  return [
+    ...renames(previous.slice(shared))
+      .reverse()
+      .map(([from, to]): [string, string] => [to, from]),
+    ...renames(next.slice(shared)),
+  ];
+};
+
+// Follows a column name through a list of renames
+export const renamedColumn = (name: string, renames: [string, string][]) =>
+  renames.reduce(
+    (current, [from, to]) => (current === from ? to : current),
+    name
+  );
+
+/**
+ * Re-infers the cleaned columns, since cleaning can change a type (a column
+ * of numbers and "N/A"s becomes numeric). Type overrides follow their column
+ * through renames and computed columns are kept at the end, their
+ * expressions rewritten to use the new names
+ */
+export const cleanedSchema = (
+  previous: ColumnSchema[],
+  inferred: ColumnSchema[],
+  renames: [string, string][]
+): ColumnSchema[] => {
+  const carried = previous.map((c) =>
+    c.expression === undefined
+      ? { ...c, name: renamedColumn(c.name, renames) }
+      : {
+          ...c,
+          expression: renames.reduce(
+            (source, [from, to]) => renameColumnReferences(source, from, to),
+            c.expression
+          ),
+        }
+  );
+  const source = inferred.map((column) => {
+    const before = carried.find(
+      (c) => c.name === column.name && c.expression === undefined
+    );
+    return before && before.type !== before.inferred
+      ? { ...column, type: before.type }
+      : column;
+  });
+  return [
+    ...source,
+    ...carried.filter(
+      (c) =>
+        c.expression !== undefined && !source.some((s) => s.name === c.name)
+    ),
+  ];
+};
+
+const list = (columns: string[]) =>
+  columns.length > 3 ? `${columns.length} columns` : columns.join(", ");
+
+// One line for the history list
+export const describeStep = (step: CleaningStep): string => {
+  switch (step.kind) {
+    case "trim":
+      return `Trim whitespace in ${list(step.columns)}`;
+    case "normalizeMissing":
+      return `Treat "N/A", "null", "-"… as missing in ${list(step.columns)}`;
+    case "dedupe":
+      return "Remove duplicate rows";
+    case "fillMissing":
+      return `Fill missing ${step.column} with ${
+        step.method === "value"
+          ? `"${step.value}"`
+          : FILL_METHODS.find((m) => m.value === step.method)?.label
+      }`;
+    case "dropMissing":
+      return `Drop rows missing ${list(step.columns)}`;
+    case "case":
+      return step.style === "common"
+        ? `Unify casing in ${list(step.columns)}`
+        : `Change ${list(step.columns)} to ${
+            CASE_STYLES.find((s) => s.value === step.style)?.label
+          }`;
+    case "rename":
+      return `Rename ${step.from} to ${step.to}`;
+    case "drop":
+      return `Drop column ${step.column}`;
+  }
+};
@@ -0,0 +1,151 @@
+import { aggregateData, type Aggregation } from "./aggregate";
+import type { CleaningStep } from "./cleaning";
+import { isMissing, sortDataByKey } from "./functions";
+import type { ColumnSchema } from "./schema";
+
+// What the dashboard keeps per loaded file, the rows live in the worker
+export type DatasetInfo = {
+  id: string;
+  name: string;
+  schema: ColumnSchema[];
+  rowCount: number;
+  // Cleaning applied to the rows as loaded, in order
+  cleaning?: CleaningStep[];
+};
+
+export type JoinKind = "inner" | "left";
+
+export const JOIN_KINDS: { value: JoinKind; label: string }[] = [
+  { value: "inner", label: "Inner join (matches only)" },
+  { value: "left", label: "Left join (keep all left rows)" },
+];
+
+export type JoinSpec = {
+  leftId: string;
+  rightId: string;
+  leftKey: string;
+  rightKey: string;
+  kind: JoinKind;
+};
+
+export type CompareSpec = {
+  leftId: string;
+  rightId: string;
+  xKey: string;
+  yKey: string;
+  aggregation: Aggregation;
+};
+
+// Series keys of the compare chart, labelled with the dataset names
+export const COMPARE_KEYS = ["left", "right"] as const;
+
+const normalizeKey = (value: string | undefined) =>
+  (value ?? "").trim().toLowerCase();
+
+/**
+ * Suggests join keys: a User_ID column present on both sides, otherwise the
+ * first column name the two datasets share
+ */
+export const suggestJoinKey = (
+  left: ColumnSchema[],
+  right: ColumnSchema[]
+): { leftKey: string; rightKey: string } => {
+  const find = (schema: ColumnSchema[], name: string) =>
+    schema.find((c) => normalizeKey(c.name) === normalizeKey(name))?.name;
+
+  const [leftId, rightId] = [find(left, "user_id"), find(right, "user_id")];
+  if (leftId && rightId) return { leftKey: leftId, rightKey: rightId };
+
+  const shared = left.find((c) => find(right, c.name));
+  return {
+    leftKey: shared?.name ?? left[0]?.name ?? "",
+    rightKey: (shared && find(right, shared.name)) ?? right[0]?.name ?? "",
+  };
+};
+
+/**
+ * Joins two sets of source rows on key columns, matching keys as trimmed,
+ * case-insensitive text. Right-hand columns that clash with a left-hand one
+ * get the right dataset's name appended, and the right key is dropped since
+ * it duplicates the left one. Rows with an empty key never match
+ */
+export const joinRows = (
+  left: Record<string, string>[],
+  right: Record<string, string>[],
+  spec: Pick<JoinSpec, "leftKey" | "rightKey" | "kind">,
+  leftColumns: string[],
+  rightColumns: string[],
+  rightName: string
+): { columns: string[]; rows: Record<string, string>[] } => {
+  const renamed = rightColumns
+    .filter((c) => c !== spec.rightKey)
+    .map((c) => ({
+      source: c,
+      target: leftColumns.includes(c) ? `${c} (${rightName})` : c,
+    }));
+
+  const index = new Map<string, Record<string, string>[]>();
+  for (const row of right) {
+    const key = normalizeKey(row[spec.rightKey]);
+    if (!key) continue;
+    if (!index.has(key)) index.set(key, []);
+    index.get(key)!.push(row);
+  }
+
+  const rows: Record<string, string>[] = [];
+  for (const row of left) {
+    const key = normalizeKey(row[spec.leftKey]);
+    const matches = key ? (index.get(key) ?? []) : [];
+
+    if (matches.length === 0 && spec.kind === "left") {
+      rows.push({
+        ...row,
+        ...Object.fromEntries(renamed.map(({ target }) => [target, ""])),
+      });
+    }
+    for (const match of matches) {
+      rows.push({
+        ...row,
+        ...Object.fromEntries(
+          renamed.map(({ source, target }) => [target, match[source] ?? ""])
+        ),
+      });
+    }
+  }
+
+  return {
+    columns: [...leftColumns, ...renamed.map(({ target }) => target)],
+    rows,
+  };
+};
+
+/**
+ * The same metric aggregated per X value in two datasets, merged into one
+ * row per X with a "left" and a "right" series for side-by-side charts
+ */
+export const compareDatasets = (
+  left: Record<string, string | number>[],
+  right: Record<string, string | number>[],
+  xKey: string,
+  yKey: string,
+  aggregation: Aggregation
+): Record<string, string | number>[] => {
+  const merged = new Map<string | number, Record<string, string | number>>();
+
+  const sides = [
+    { key: COMPARE_KEYS[0], rows: left },
+    { key: COMPARE_KEYS[1], rows: right },
+  ];
+
+  for (const side of sides) {
+    const aggregated = aggregateData(side.rows, xKey, [yKey], aggregation);
+    for (const row of aggregated) {
+      const x = row[xKey];
+      if (isMissing(x)) continue;
+      if (!merged.has(x)) merged.set(x, { [xKey]: x });
+      merged.get(x)![side.key] = row[yKey];
+    }
+  }
+
+  return sortDataByKey([...merged.values()], xKey);
+};
@@ -0,0 +1,280 @@
+import Papa from "papaparse";
+import { CHART_TYPES } from "./charts";
+import type { DataInsights } from "./insights";
+import type { DatasetProfile } from "./profile";
+import type { ChatMessage } from "./providers";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+/**
+ * Serializes the chart's SVG as a standalone file. Recharts styles mostly
+ * through attributes, so only the font and a white background are added.
+ * Returns null for charts without an SVG (the heatmap is an HTML table)
+ */
+export const chartSvg = (
+  container: HTMLElement
+): { svg: string; width: number; height: number } | null => {
+  const source = container.querySelector<SVGSVGElement>(
+    ".recharts-wrapper > svg"
+  );
+  if (!source) return null;
+
+  const { width, height } = source.getBoundingClientRect();
+  const clone = source.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  clone.setAttribute("font-family", getComputedStyle(source).fontFamily);
+
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", "#ffffff");
+  clone.insertBefore(background, clone.firstChild);
+
+  return {
+    svg: new XMLSerializer().serializeToString(clone),
+    width,
+    height,
+  };
+};
+
+// Rasterizes an SVG string at `scale` times its size for crisp images
+export const svgToPng = (
+  svg: string,
+  width: number,
+  height: number,
+  scale: number = 2
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not available."));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("PNG encoding failed."))
+      );
+    };
+    image.onerror = () => reject(new Error("The chart could not be drawn."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const rowsToCsv = (rows: Record<string, string | number>[]) =>
+  Papa.unparse(rows);
+
+export const rowsToJson = (rows: Record<string, string | number>[]) =>
+  JSON.stringify(rows, null, 2);
+
+export type ReportContent = {
+  title: string;
+  // PNG data URL of the chart, when the chart could be rendered to one
+  chartImage: string | null;
+  profile: DatasetProfile;
+  insights: DataInsights | null;
+  chat: ChatMessage[];
+};
+
+const formatNumber = (value: number | undefined) =>
+  value === undefined ? "" : String(Number(value.toFixed(3)));
+
+// One row of cells per column for the profile table of both report formats
+const profileRows = (profile: DatasetProfile) =>
+  profile.columns.map((c) => [
+    c.name,
+    c.type,
+    String(c.missing),
+    String(c.distinct),
+    c.earliest ?? formatNumber(c.min),
+    c.latest ?? formatNumber(c.max),
+    formatNumber(c.mean),
+    formatNumber(c.median),
+    (c.topCategories ?? []).map((t) => `${t.value} (${t.count})`).join(", "),
+  ]);
+
+const PROFILE_HEADERS = [
+  "Column",
+  "Type",
+  "Missing",
+  "Distinct",
+  "Min",
+  "Max",
+  "Mean",
+  "Median",
+  "Top values",
+];
+
+const strongestCorrelations = (profile: DatasetProfile, limit = 5) =>
+  [...profile.correlations]
+    .sort((a, b) => Math.abs(b.r) - Math.abs(a.r))
+    .slice(0, limit);
+
+// Insights as plain lines, shared by both report formats
+const insightLines = (insights: DataInsights) => ({
+  findings: insights.keyFindings.map((f) => `${f.title}: ${f.detail}`),
+  outliers: insights.outliers.map((o) => `${o.column}: ${o.description}`),
+  charts: insights.suggestedCharts.map(
+    (c) =>
+      `${CHART_TYPES[c.chartType].label} of ${[c.xColumn, ...c.yColumns].join(", ")}: ${c.reason}`
+  ),
+  confidence: `Confidence: ${insights.confidence} (${insights.confidenceReason})`,
+});
+
+const escapeMarkdownCell = (value: string) =>
+  value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+export const buildMarkdownReport = (report: ReportContent): string => {
+  const lines = [`# ${report.title}`, ""];
+  lines.push(`_Generated ${new Date().toLocaleString()}_`, "");
+
+  if (report.chartImage) {
+    lines.push(`![Chart](${report.chartImage})`, "");
+  }
+
+  lines.push(`## Dataset profile (${report.profile.rowCount} rows)`, "");
+  lines.push(`| ${PROFILE_HEADERS.join(" | ")} |`);
+  lines.push(`| ${PROFILE_HEADERS.map(() => "---").join(" | ")} |`);
+  for (const row of profileRows(report.profile)) {
+    lines.push(`| ${row.map(escapeMarkdownCell).join(" | ")} |`);
+  }
+  lines.push("");
+
+  const correlations = strongestCorrelations(report.profile);
+  if (correlations.length > 0) {
+    lines.push("### Strongest correlations", "");
+    for (const c of correlations) lines.push(`- ${c.a} ↔ ${c.b}: r = ${c.r}`);
+    lines.push("");
+  }
+
+  if (report.insights) {
+    const { findings, outliers, charts, confidence } = insightLines(
+      report.insights
+    );
+    lines.push("## AI insights", "", `**${report.insights.headline}**`, "");
+    for (const [heading, items] of [
+      ["Key findings", findings],
+      ["Outliers", outliers],
+      ["Suggested charts", charts],
+    ] as const) {
+      if (items.length === 0) continue;
+      lines.push(`### ${heading}`, "", ...items.map((item) => `- ${item}`), "");
+    }
+    lines.push(`_${confidence}_`, "");
+  }
+
+  if (report.chat.length > 0) {
+    lines.push("## Q&A", "");
+    for (const message of report.chat) {
+      const speaker = message.role === "user" ? "Q" : "A";
+      lines.push(`**${speaker}:** ${message.content}`, "");
+    }
+  }
+
+  return lines.join("\n");
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const insightsHtml = (insights: DataInsights) => {
+  const { findings, outliers, charts, confidence } = insightLines(insights);
+  const list = (heading: string, items: string[]) =>
+    items.length > 0
+      ? `<h3>${heading}</h3><ul>${items
+          .map((item) => `<li>${escapeHtml(item)}</li>`)
+          .join("")}</ul>`
+      : "";
+  return [
+    "<h2>AI insights</h2>",
+    `<p><strong>${escapeHtml(insights.headline)}</strong></p>`,
+    list("Key findings", findings),
+    list("Outliers", outliers),
+    list("Suggested charts", charts),
+    `<p class="muted">${escapeHtml(confidence)}</p>`,
+  ].join("");
+};
+
+export const buildHtmlReport = (report: ReportContent): string => {
+  const title = escapeHtml(report.title);
+  const table = `<table>
+<thead><tr>${PROFILE_HEADERS.map((h) => `<th>${h}</th>`).join("")}</tr></thead>
+<tbody>
+${profileRows(report.profile)
+  .map(
+    (row) =>
+      `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`
+  )
+  .join("\n")}
+</tbody>
+</table>`;
+
+  const correlations = strongestCorrelations(report.profile);
+  const sections = [
+    `<h1>${title}</h1>`,
+    `<p class="muted">Generated ${escapeHtml(new Date().toLocaleString())}</p>`,
+    report.chartImage ? `<img src="${report.chartImage}" alt="Chart">` : "",
+    `<h2>Dataset profile (${report.profile.rowCount} rows)</h2>`,
+    table,
+    correlations.length > 0
+      ? `<h3>Strongest correlations</h3><ul>${correlations
+          .map(
+            (c) =>
+              `<li>${escapeHtml(c.a)} ↔ ${escapeHtml(c.b)}: r = ${c.r}</li>`
+          )
+          .join("")}</ul>`
+      : "",
+    report.insights ? insightsHtml(report.insights) : "",
+    report.chat.length > 0
+      ? `<h2>Q&amp;A</h2>${report.chat
+          .map(
+            (m) =>
+              `<div class="text ${m.role}"><strong>${
+                m.role === "user" ? "Q" : "A"
+              }:</strong> ${escapeHtml(m.content)}</div>`
+          )
+          .join("")}`
+      : "",
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+img { max-width: 100%; border: 1px solid #e5e7eb; border-radius: 8px; }
+table { border-collapse: collapse; font-size: 0.85rem; width: 100%; }
+th, td { border: 1px solid #e5e7eb; padding: 0.3rem 0.5rem; text-align: left; }
+th { background: #f3f4f6; }
+.muted { color: #6b7280; font-size: 0.85rem; }
+.text { white-space: pre-wrap; margin-bottom: 1rem; }
+.user { color: #4338ca; }
+</style>
+</head>
+<body>
+${sections.filter(Boolean).join("\n")}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,736 @@
+import { sampleData } from "./functions";
+import {
+  convertValue,
+  inferSchema,
+  parseDate,
+  type ColumnSchema,
+} from "./schema";
+
+type Row = Record<string, string | number>;
+
+// What an expression produces for one row, null is a missing value
+export type Value = number | string | boolean | null;
+
+export class ExpressionError extends Error {
+  // Character offset in the source the error points at
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "ExpressionError";
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "string"; value: string; position: number }
+  // Bare words (functions, keywords, columns) and [bracketed column names]
+  | { kind: "name"; value: string; bracketed: boolean; position: number }
+  | { kind: "operator"; value: string; position: number }
+  | { kind: "end"; position: number };
+
+type Node =
+  | { kind: "literal"; value: Value }
+  | { kind: "column"; name: string }
+  | { kind: "unary"; op: string; operand: Node }
+  | { kind: "binary"; op: string; left: Node; right: Node }
+  | { kind: "call"; name: string; args: Node[] };
+
+// Longest first, so "<=" isn't read as "<" followed by "="
+const OPERATORS = "<= >= <> != == && || + - * / % ^ & = < > ! ( ) ,".split(" ");
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = source.slice(i).match(/^(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i);
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      // Quotes inside a string are written twice, as in spreadsheets
+      let value = "";
+      let j = i + 1;
+      for (;;) {
+        if (j >= source.length) {
+          throw new ExpressionError("Unterminated string.", i);
+        }
+        if (source[j] === char) {
+          if (source[j + 1] !== char) break;
+          j++;
+        }
+        value += source[j++];
+      }
+      tokens.push({ kind: "string", value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (char === "[") {
+      const end = source.indexOf("]", i);
+      if (end === -1) throw new ExpressionError("Missing ].", i);
+      tokens.push({
+        kind: "name",
+        value: source.slice(i + 1, end),
+        bracketed: true,
+        position: i,
+      });
+      i = end + 1;
+      continue;
+    }
+
+    const word = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (word) {
+      tokens.push({
+        kind: "name",
+        value: word[0],
+        bracketed: false,
+        position: i,
+      });
+      i += word[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) throw new ExpressionError(`Unexpected "${char}".`, i);
+    tokens.push({ kind: "operator", value: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ kind: "end", position: source.length });
+  return tokens;
+};
+
+type FunctionDef = {
+  args: [min: number, max: number];
+  usage: string;
+  apply: (args: Value[]) => Value;
+};
+
+const isNumber = (value: Value): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// Numbers stay numbers, numeric text and booleans convert, the rest is null
+const toNumber = (value: Value): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+};
+
+const toText = (value: Value) => (value === null ? "" : String(value));
+
+// Boolean columns hold "true"/"false" after typing
+const isTruthy = (value: Value) => {
+  if (typeof value === "string") {
+    return value !== "" && value.toLowerCase() !== "false";
+  }
+  return Boolean(value);
+};
+
+// A finite number or null, so NaN and Infinity never reach a column
+const finite = (value: number) => (Number.isFinite(value) ? value : null);
+
+const numeric =
+  (fn: (...numbers: number[]) => number) =>
+  (args: Value[]): Value => {
+    const numbers = args.map(toNumber);
+    return numbers.every((n) => n !== null)
+      ? finite(fn(...(numbers as number[])))
+      : null;
+  };
+
+const text =
+  (fn: (value: string, ...rest: Value[]) => Value) =>
+  ([value, ...rest]: Value[]): Value =>
+    value === null ? null : fn(String(value), ...rest);
+
+type DateParts = { year: number; month: number; day: number; hour: number };
+
+// Parts of an ISO date, other formats are normalized like on import
+const dateParts = (value: Value): DateParts | null => {
+  if (value === null) return null;
+  const iso = parseDate(String(value));
+  const match = iso?.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}))?/);
+  if (!match) return null;
+  const [, year, month, day, hour = "0"] = match;
+  return { year: +year, month: +month, day: +day, hour: +hour };
+};
+
+const datePart =
+  (pick: (parts: DateParts) => number) =>
+  ([value]: Value[]): Value => {
+    const parts = dateParts(value);
+    return parts ? pick(parts) : null;
+  };
+
+const utcDays = (parts: DateParts) =>
+  Date.UTC(parts.year, parts.month - 1, parts.day) / 86400000;
+
+const formatEdge = (value: number) => String(Number(value.toFixed(6)));
+
+const FUNCTIONS: Record<string, FunctionDef> = {
+  // Math
+  abs: { args: [1, 1], usage: "abs(x)", apply: numeric(Math.abs) },
+  round: {
+    args: [1, 2],
+    usage: "round(x, digits)",
+    apply: numeric((x, digits = 0) => {
+      const factor = 10 ** Math.round(digits);
+      return Math.round(x * factor) / factor;
+    }),
+  },
+  floor: { args: [1, 1], usage: "floor(x)", apply: numeric(Math.floor) },
+  ceil: { args: [1, 1], usage: "ceil(x)", apply: numeric(Math.ceil) },
+  sqrt: { args: [1, 1], usage: "sqrt(x)", apply: numeric(Math.sqrt) },
+  log: {
+    args: [1, 2],
+    usage: "log(x, base)",
+    apply: numeric((x, base = Math.E) => Math.log(x) / Math.log(base)),
+  },
+  exp: { args: [1, 1], usage: "exp(x)", apply: numeric(Math.exp) },
+  pow: { args: [2, 2], usage: "pow(x, y)", apply: numeric(Math.pow) },
+  min: { args: [1, Infinity], usage: "min(a, b, …)", apply: numeric(Math.min) },
+  max: { args: [1, Infinity], usage: "max(a, b, …)", apply: numeric(Math.max) },
+
+  // Text
+  len: { args: [1, 1], usage: "len(text)", apply: text((s) => s.length) },
+  upper: {
+    args: [1, 1],
+    usage: "upper(text)",
+    apply: text((s) => s.toUpperCase()),
+  },
+  lower: {
+    args: [1, 1],
+    usage: "lower(text)",
+    apply: text((s) => s.toLowerCase()),
+  },
+  trim: { args: [1, 1], usage: "trim(text)", apply: text((s) => s.trim()) },
+  left: {
+    args: [2, 2],
+    usage: "left(text, count)",
+    apply: text((s, n) => s.slice(0, Math.max(0, toNumber(n) ?? 0))),
+  },
+  right: {
+    args: [2, 2],
+    usage: "right(text, count)",
+    apply: text((s, n) => {
+      const count = Math.max(0, toNumber(n) ?? 0);
+      return count === 0 ? "" : s.slice(-count);
+    }),
+  },
+  // 1-based like spreadsheets
+  substr: {
+    args: [2, 3],
+    usage: "substr(text, start, length)",
+    apply: text((s, start, length) => {
+      const from = Math.max(0, (toNumber(start) ?? 1) - 1);
+      return length === undefined
+        ? s.slice(from)
+        : s.slice(from, from + Math.max(0, toNumber(length) ?? 0));
+    }),
+  },
+  replace: {
+    args: [3, 3],
+    usage: "replace(text, find, with)",
+    apply: text((s, find, replacement) =>
+      s.split(toText(find)).join(toText(replacement))
+    ),
+  },
+  contains: {
+    args: [2, 2],
+    usage: "contains(text, part)",
+    apply: text((s, part) =>
+      s.toLowerCase().includes(toText(part).toLowerCase())
+    ),
+  },
+  concat: {
+    args: [1, Infinity],
+    usage: "concat(a, b, …)",
+    apply: (args) => args.map(toText).join(""),
+  },
+
+  // Dates
+  year: { args: [1, 1], usage: "year(date)", apply: datePart((d) => d.year) },
+  month: {
+    args: [1, 1],
+    usage: "month(date)",
+    apply: datePart((d) => d.month),
+  },
+  day: { args: [1, 1], usage: "day(date)", apply: datePart((d) => d.day) },
+  hour: { args: [1, 1], usage: "hour(date)", apply: datePart((d) => d.hour) },
+  // 1 (Monday) to 7 (Sunday)
+  weekday: {
+    args: [1, 1],
+    usage: "weekday(date)",
+    apply: datePart((d) => ((((utcDays(d) + 3) % 7) + 7) % 7) + 1),
+  },
+  quarter: {
+    args: [1, 1],
+    usage: "quarter(date)",
+    apply: datePart((d) => Math.ceil(d.month / 3)),
+  },
+  daysBetween: {
+    args: [2, 2],
+    usage: "daysBetween(from, to)",
+    apply: ([from, to]) => {
+      const [a, b] = [dateParts(from), dateParts(to)];
+      return a && b ? Math.round(utcDays(b) - utcDays(a)) : null;
+    },
+  },
+
+  // Binning
+  bin: {
+    args: [2, 2],
+    usage: "bin(x, width)",
+    apply: numeric((x, width) =>
+      width > 0 ? Math.floor(x / width) * width : NaN
+    ),
+  },
+  // Labels by ascending edges: bucket(BMI, 18.5, 25, 30) gives "25–30"
+  bucket: {
+    args: [2, Infinity],
+    usage: "bucket(x, edge1, edge2, …)",
+    apply: ([value, ...rest]) => {
+      const x = toNumber(value);
+      const edges = rest.map(toNumber);
+      if (x === null || edges.some((e) => e === null)) return null;
+      const sorted = (edges as number[]).sort((a, b) => a - b);
+      const index = sorted.findIndex((edge) => x < edge);
+      if (index === 0) return `< ${formatEdge(sorted[0])}`;
+      if (index === -1) return `≥ ${formatEdge(sorted[sorted.length - 1])}`;
+      return `${formatEdge(sorted[index - 1])}–${formatEdge(sorted[index])}`;
+    },
+  },
+
+  // Missing values
+  isEmpty: {
+    args: [1, 1],
+    usage: "isEmpty(x)",
+    apply: ([value]) => value === null || value === "",
+  },
+  coalesce: {
+    args: [1, Infinity],
+    usage: "coalesce(a, b, …)",
+    apply: (args) => args.find((v) => v !== null && v !== "") ?? null,
+  },
+
+  // Evaluated lazily in `evaluate`, listed for arity checks and help
+  if: { args: [3, 3], usage: "if(condition, then, else)", apply: () => null },
+};
+
+// Function names are case-insensitive
+const functionKey = (name: string) =>
+  Object.keys(FUNCTIONS).find(
+    (key) => key.toLowerCase() === name.toLowerCase()
+  );
+
+export const FUNCTION_USAGE = Object.values(FUNCTIONS).map((f) => f.usage);
+
+const KEYWORDS: Record<string, Value> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+const COMPARISONS = ["=", "==", "!=", "<>", "<", "<=", ">", ">="];
+
+/**
+ * Recursive descent over the tokens, loosest binding first:
+ * or, and, not, comparisons, + - &, * / %, unary minus, ^
+ */
+const parse = (source: string, columns: string[]): Node => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (...values: string[]) => {
+    const token = peek();
+    return token.kind === "operator" && values.includes(token.value);
+  };
+  const isWord = (...values: string[]) => {
+    const token = peek();
+    return (
+      token.kind === "name" &&
+      !token.bracketed &&
+      values.includes(token.value.toLowerCase())
+    );
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new ExpressionError(`Expected "${value}".`, peek().position);
+    }
+    index++;
+  };
+
+  const binaryLevel =
+    (next: () => Node, operators: string[], words: string[] = []) =>
+    (): Node => {
+      let left = next();
+      while (isOperator(...operators) || isWord(...words)) {
+        const token = tokens[index++] as { value: string };
+        const right = next();
+        left = { kind: "binary", op: token.value.toLowerCase(), left, right };
+      }
+      return left;
+    };
+
+  const primary = (): Node => {
+    const token = tokens[index++];
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "operator":
+        if (token.value === "(") {
+          const inner = or();
+          expect(")");
+          return inner;
+        }
+        throw new ExpressionError(
+          `Unexpected "${token.value}".`,
+          token.position
+        );
+      case "end":
+        throw new ExpressionError(
+          "The expression ends too early.",
+          token.position
+        );
+      case "name": {
+        if (!token.bracketed && isOperator("(")) {
+          const key = functionKey(token.value);
+          if (!key) {
+            throw new ExpressionError(
+              `Unknown function "${token.value}".`,
+              token.position
+            );
+          }
+          index++;
+          const args: Node[] = [];
+          if (!isOperator(")")) {
+            args.push(or());
+            while (isOperator(",")) {
+              index++;
+              args.push(or());
+            }
+          }
+          expect(")");
+          const [min, max] = FUNCTIONS[key].args;
+          if (args.length < min || args.length > max) {
+            throw new ExpressionError(
+              `Use ${FUNCTIONS[key].usage}.`,
+              token.position
+            );
+          }
+          return { kind: "call", name: key, args };
+        }
+        const keyword = token.value.toLowerCase();
+        if (!token.bracketed && Object.keys(KEYWORDS).includes(keyword)) {
+          return { kind: "literal", value: KEYWORDS[keyword] };
+        }
+        if (!columns.includes(token.value)) {
+          // "Sleep Hours" is read as the column "Sleep" followed by more
+          const needsBrackets =
+            !token.bracketed &&
+            columns.some((c) => c.startsWith(token.value) && /\W/.test(c));
+          throw new ExpressionError(
+            `Unknown column "${token.value}".${
+              needsBrackets
+                ? " Write names with spaces or symbols in [brackets]."
+                : ""
+            }`,
+            token.position
+          );
+        }
+        return { kind: "column", name: token.value };
+      }
+    }
+  };
+
+  // Right-associative: 2 ^ 3 ^ 2 is 2 ^ 9
+  const power = (): Node => {
+    const base = primary();
+    if (!isOperator("^")) return base;
+    index++;
+    return { kind: "binary", op: "^", left: base, right: unary() };
+  };
+  const unary = (): Node => {
+    if (isOperator("-", "+")) {
+      const op = (tokens[index++] as { value: string }).value;
+      return { kind: "unary", op, operand: unary() };
+    }
+    return power();
+  };
+  const multiplicative = binaryLevel(unary, ["*", "/", "%"]);
+  const additive = binaryLevel(multiplicative, ["+", "-", "&"]);
+  const comparison = (): Node => {
+    const left = additive();
+    if (!isOperator(...COMPARISONS)) return left;
+    const op = (tokens[index++] as { value: string }).value;
+    return { kind: "binary", op, left, right: additive() };
+  };
+  const not = (): Node => {
+    if (isOperator("!") || isWord("not")) {
+      index++;
+      return { kind: "unary", op: "not", operand: not() };
+    }
+    return comparison();
+  };
+  const and = binaryLevel(not, ["&&"], ["and"]);
+  const or = binaryLevel(and, ["||"], ["or"]);
+
+  const tree = or();
+  if (peek().kind !== "end") {
+    throw new ExpressionError("Unexpected input.", peek().position);
+  }
+  return tree;
+};
+
+const compare = (op: string, left: Value, right: Value): Value => {
+  if (left === null || right === null) {
+    if (op === "=" || op === "==") return left === right;
+    if (op === "!=" || op === "<>") return left !== right;
+    return null;
+  }
+  const [a, b] = [toNumber(left), toNumber(right)];
+  const order =
+    a !== null && b !== null
+      ? a - b
+      : String(left).localeCompare(String(right), undefined, {
+          numeric: true,
+          sensitivity: "accent",
+        });
+  switch (op) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "!=":
+    case "<>":
+      return order !== 0;
+    default:
+      return order === 0;
+  }
+};
+
+const arithmetic = (op: string, left: Value, right: Value): Value => {
+  const [a, b] = [toNumber(left), toNumber(right)];
+  if (a === null || b === null) return null;
+  switch (op) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return b === 0 ? null : a / b;
+    case "%":
+      return b === 0 ? null : a % b;
+    default:
+      return finite(a ** b);
+  }
+};
+
+const evaluate = (node: Node, row: Row): Value => {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "column": {
+      const value = row[node.name];
+      return value === undefined || value === "" ? null : value;
+    }
+    case "unary": {
+      const value = evaluate(node.operand, row);
+      if (node.op === "not") return !isTruthy(value);
+      const number = toNumber(value);
+      return number === null ? null : node.op === "-" ? -number : number;
+    }
+    case "binary": {
+      if (node.op === "and" || node.op === "&&") {
+        return (
+          isTruthy(evaluate(node.left, row)) &&
+          isTruthy(evaluate(node.right, row))
+        );
+      }
+      if (node.op === "or" || node.op === "||") {
+        return (
+          isTruthy(evaluate(node.left, row)) ||
+          isTruthy(evaluate(node.right, row))
+        );
+      }
+      const left = evaluate(node.left, row);
+      const right = evaluate(node.right, row);
+      if (node.op === "&") return toText(left) + toText(right);
+      if (COMPARISONS.includes(node.op)) return compare(node.op, left, right);
+      return arithmetic(node.op, left, right);
+    }
+    case "call":
+      // Only the branch taken is evaluated
+      if (node.name === "if") {
+        const [condition, then, otherwise] = node.args;
+        return evaluate(
+          isTruthy(evaluate(condition, row)) ? then : otherwise,
+          row
+        );
+      }
+      return FUNCTIONS[node.name].apply(
+        node.args.map((arg) => evaluate(arg, row))
+      );
+  }
+};
+
+const references = (node: Node): string[] => {
+  switch (node.kind) {
+    case "column":
+      return [node.name];
+    case "unary":
+      return references(node.operand);
+    case "binary":
+      return [...references(node.left), ...references(node.right)];
+    case "call":
+      return node.args.flatMap(references);
+    default:
+      return [];
+  }
+};
+
+export type CompiledExpression = {
+  evaluate: (row: Row) => Value;
+  // Columns the expression reads
+  columns: string[];
+};
+
+/**
+ * Parses an expression over the given columns. Throws an ExpressionError
+ * pointing at the problem; evaluating never throws, values that don't fit
+ * (text in arithmetic, division by zero) give null
+ */
+export const compileExpression = (
+  source: string,
+  columns: string[]
+): CompiledExpression => {
+  if (!source.trim()) throw new ExpressionError("Enter an expression.", 0);
+  const tree = parse(source, columns);
+  return {
+    evaluate: (row) => evaluate(tree, row),
+    columns: [...new Set(references(tree))],
+  };
+};
+
+/**
+ * The source with every reference to a column changed to its new name,
+ * bracketed when the new name isn't a plain word. Function names and
+ * keywords that happen to match are left alone
+ */
+export const renameColumnReferences = (
+  source: string,
+  from: string,
+  to: string
+): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch {
+    return source;
+  }
+  const plain =
+    /^[A-Za-z_][A-Za-z0-9_]*$/.test(to) &&
+    !functionKey(to) &&
+    !Object.keys(KEYWORDS).includes(to.toLowerCase());
+  const replacement = plain ? to : `[${to}]`;
+
+  // Back to front, so the positions of the tokens still to go stay valid
+  let result = source;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (token.kind !== "name" || token.value !== from) continue;
+    const next = tokens[i + 1];
+    const isCall = next.kind === "operator" && next.value === "(";
+    const isKeyword = Object.keys(KEYWORDS).includes(from.toLowerCase());
+    if (!token.bracketed && (isCall || isKeyword)) continue;
+    const end = token.position + from.length + (token.bracketed ? 2 : 0);
+    result = result.slice(0, token.position) + replacement + result.slice(end);
+  }
+  return result;
+};
+
+// Cell value for a result: booleans as "true"/"false" like typed columns
+const toCell = (value: Value): string =>
+  isNumber(value) || typeof value === "string" || typeof value === "boolean"
+    ? String(value)
+    : "";
+
+/**
+ * Fills in the schema's computed columns on typed rows, in schema order so
+ * a computed column can use the ones before it. Results are converted to
+ * the column's type like source cells are
+ */
+export const applyComputedColumns = (
+  rows: Row[],
+  schema: ColumnSchema[]
+): Row[] => {
+  const computed = schema.flatMap((column, i) => {
+    if (column.expression === undefined) return [];
+    let expression: CompiledExpression | null = null;
+    try {
+      const available = schema.slice(0, i).map((c) => c.name);
+      expression = compileExpression(column.expression, available);
+    } catch {
+      // A column it relied on is gone, the values stay empty
+    }
+    return [{ column, expression }];
+  });
+  if (computed.length === 0) return rows;
+
+  return rows.map((source) => {
+    const row = { ...source };
+    for (const { column, expression } of computed) {
+      row[column.name] = expression
+        ? convertValue(toCell(expression.evaluate(row)), column.type)
+        : "";
+    }
+    return row;
+  });
+};
+
+// Rows evaluated to infer a new computed column's type
+export const INFERENCE_ROWS = 5000;
+
+/**
+ * Schema entry for a new computed column, its type inferred from the
+ * results like a loaded file's columns
+ */
+export const computedColumn = (
+  name: string,
+  source: string,
+  rows: Row[],
+  schema: ColumnSchema[]
+): ColumnSchema => {
+  const expression = compileExpression(
+    source,
+    schema.map((c) => c.name)
+  );
+  const cells = sampleData(rows, INFERENCE_ROWS).map((row) => ({
+    [name]: toCell(expression.evaluate(row)),
+  }));
+  return { ...inferSchema(cells, [name])[0], expression: source };
+};
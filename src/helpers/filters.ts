@@ -0,0 +1,176 @@
+import { isMissing } from "./functions";
+
+export type FilterOperator = "equals" | "in" | "range" | "contains" | "isEmpty";
+
+export type FilterCondition = {
+  id: string;
+  column: string;
+  operator: FilterOperator;
+  // equals / contains
+  value: string;
+  // in
+  values: string[];
+  // range, either bound may be left empty
+  min: string;
+  max: string;
+};
+
+export type Combinator = "and" | "or";
+
+export type FilterGroup = {
+  id: string;
+  combinator: Combinator;
+  conditions: FilterCondition[];
+};
+
+// Groups are combined with the top-level combinator, conditions inside a
+// group with the group's own one: (a AND b) OR (c)
+export type FilterState = {
+  combinator: Combinator;
+  groups: FilterGroup[];
+};
+
+export const FILTER_OPERATORS: { value: FilterOperator; label: string }[] = [
+  { value: "equals", label: "equals" },
+  { value: "in", label: "is one of" },
+  { value: "range", label: "between" },
+  { value: "contains", label: "contains" },
+  { value: "isEmpty", label: "is empty" },
+];
+
+export const EMPTY_FILTERS: FilterState = { combinator: "and", groups: [] };
+
+// Compares numerically when both sides are numbers, as text otherwise
+// (ISO dates compare correctly as text)
+const compare = (cell: string | number, bound: string) => {
+  const num = Number(bound);
+  if (typeof cell === "number" && bound.trim() !== "" && !isNaN(num)) {
+    return cell - num;
+  }
+  return String(cell).localeCompare(bound, undefined, { numeric: true });
+};
+
+export const matchesCondition = (
+  row: Record<string, string | number>,
+  condition: FilterCondition
+): boolean => {
+  const cell = row[condition.column];
+
+  switch (condition.operator) {
+    case "isEmpty":
+      return isMissing(cell);
+    case "equals":
+      return String(cell ?? "").toLowerCase() === condition.value.toLowerCase();
+    case "in":
+      return condition.values.includes(String(cell ?? ""));
+    case "contains":
+      return String(cell ?? "")
+        .toLowerCase()
+        .includes(condition.value.toLowerCase());
+    case "range":
+      if (isMissing(cell)) return false;
+      return (
+        (condition.min === "" || compare(cell, condition.min) >= 0) &&
+        (condition.max === "" || compare(cell, condition.max) <= 0)
+      );
+  }
+};
+
+// Incomplete conditions (no value entered yet) are ignored rather than
+// filtering everything out while the user is still typing
+export const isConditionActive = (condition: FilterCondition): boolean => {
+  if (!condition.column) return false;
+  switch (condition.operator) {
+    case "equals":
+    case "contains":
+      return condition.value !== "";
+    case "in":
+      return condition.values.length > 0;
+    case "range":
+      return condition.min !== "" || condition.max !== "";
+    case "isEmpty":
+      return true;
+  }
+};
+
+export const activeConditions = (filters: FilterState): FilterCondition[] =>
+  filters.groups.flatMap((g) => g.conditions.filter(isConditionActive));
+
+/**
+ * Applies the filter groups to the rows. Returns the input array untouched
+ * when no condition is active so memoized consumers don't recompute
+ */
+export const applyFilters = (
+  data: Record<string, string | number>[],
+  filters: FilterState
+): Record<string, string | number>[] => {
+  const groups = filters.groups
+    .map((g) => ({ ...g, conditions: g.conditions.filter(isConditionActive) }))
+    .filter((g) => g.conditions.length > 0);
+  if (groups.length === 0) return data;
+
+  const matchesGroup = (
+    row: Record<string, string | number>,
+    group: FilterGroup
+  ) =>
+    group.combinator === "and"
+      ? group.conditions.every((c) => matchesCondition(row, c))
+      : group.conditions.some((c) => matchesCondition(row, c));
+
+  return data.filter((row) =>
+    filters.combinator === "and"
+      ? groups.every((g) => matchesGroup(row, g))
+      : groups.some((g) => matchesGroup(row, g))
+  );
+};
+
+/**
+ * Human readable form of a condition, used for the filter chips
+ */
+export const describeCondition = (condition: FilterCondition): string => {
+  const column = condition.column.replace(/_/g, " ");
+
+  switch (condition.operator) {
+    case "equals":
+      return `${column} = ${condition.value}`;
+    case "in":
+      return `${column} in (${condition.values.join(", ")})`;
+    case "contains":
+      return `${column} contains "${condition.value}"`;
+    case "isEmpty":
+      return `${column} is empty`;
+    case "range":
+      if (condition.min === "") return `${column} ≤ ${condition.max}`;
+      if (condition.max === "") return `${column} ≥ ${condition.min}`;
+      return `${condition.min} ≤ ${column} ≤ ${condition.max}`;
+  }
+};
+
+export const createCondition = (
+  id: string,
+  column: string
+): FilterCondition => ({
+  id,
+  column,
+  operator: "equals",
+  value: "",
+  values: [],
+  min: "",
+  max: "",
+});
+
+/**
+ * Removes a condition, dropping its group if it was the last one
+ */
+export const removeCondition = (
+  filters: FilterState,
+  conditionId: string
+): FilterState => ({
+  ...filters,
+  groups: filters.groups
+    .map((g) => ({
+      ...g,
+      conditions: g.conditions.filter((c) => c.id !== conditionId),
+    }))
+    .filter((g) => g.conditions.length > 0),
+});
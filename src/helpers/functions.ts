@@ -1,21 +1,6 @@
-// Helper function to convert string values to numbers where appropriate
-export const parseValue = (value: string): string | number => {
-  if (value === "" || value === null || value === undefined) return value;
-  const num = Number(value);
-  return !isNaN(num) && value.trim() !== "" ? num : value;
-};
-
-export const convertDataTypes = (
-  data: Record<string, string>[]
-): Record<string, string | number>[] => {
-  return data.map((row) => {
-    const convertedRow: Record<string, string | number> = {};
-    for (const key in row) {
-      convertedRow[key] = parseValue(row[key]);
-    }
-    return convertedRow;
-  });
-};
+// Empty cells (and cells absent from ragged rows) count as missing
+export const isMissing = (value: string | number | undefined | null) =>
+  value === undefined || value === null || value === "";
 
 // Sort data by a specific key (handles both numeric and alphabetic)
 export const sortDataByKey = (
@@ -26,33 +11,267 @@ export const sortDataByKey = (
     const aVal = a[key];
     const bVal = b[key];
 
+    // Missing values always go last
+    if (isMissing(aVal) || isMissing(bVal)) {
+      return Number(isMissing(aVal)) - Number(isMissing(bVal));
+    }
+
     // Both are numbers
     if (typeof aVal === "number" && typeof bVal === "number") {
       return aVal - bVal;
     }
 
-    // Convert to string for alphabetic comparison
+    // Schema-typed values are strings otherwise (ISO dates sort as text);
+    // numeric collation keeps "Group 2" before "Group 10"
     const aStr = String(aVal);
     const bStr = String(bVal);
-    return aStr.localeCompare(bStr);
+    return aStr.localeCompare(bStr, undefined, { numeric: true });
   });
 };
 
-// Sample large datasets for better performance
+export type SamplingStrategy =
+  "stride" | "lttb" | "minmax" | "stratified" | "random";
+
+export const SAMPLING_STRATEGIES: { value: SamplingStrategy; label: string }[] =
+  [
+    { value: "stride", label: "Even stride" },
+    { value: "lttb", label: "LTTB (shape preserving)" },
+    { value: "minmax", label: "Min/max per bucket" },
+    { value: "stratified", label: "Stratified by column" },
+    { value: "random", label: "Random (seeded)" },
+  ];
+
+// Range of the chart's point budget, beyond it the chart stops responding
+export const MIN_POINT_BUDGET = 10;
+export const MAX_POINT_BUDGET = 50_000;
+
+export type SamplingOptions = {
+  strategy?: SamplingStrategy;
+  // Value column for LTTB and min/max, rows are assumed sorted by xKey
+  xKey?: string;
+  yKey?: string;
+  // Categorical column for stratified sampling
+  stratifyKey?: string;
+  seed?: number;
+};
+
+// Evenly spaced indices, always exactly `count` of them (first one included)
+const strideIndices = (length: number, count: number) =>
+  Array.from({ length: count }, (_, i) => Math.floor((i * length) / count));
+
+const toNumber = (value: string | number | undefined, fallback: number) =>
+  typeof value === "number" ? value : fallback;
+
+/**
+ * Largest-Triangle-Three-Buckets: keeps the first and last point and, per
+ * bucket, the point forming the largest triangle with its neighbours.
+ * Preserves peaks and the visual shape of a line far better than striding
+ */
+const lttb = (
+  data: Record<string, string | number>[],
+  maxPoints: number,
+  xKey: string | undefined,
+  yKey: string
+) => {
+  if (maxPoints < 3) return strideIndices(data.length, maxPoints);
+
+  const x = (i: number) => (xKey ? toNumber(data[i][xKey], i) : i);
+  const y = (i: number) => toNumber(data[i][yKey], 0);
+  const bucketSize = (data.length - 2) / (maxPoints - 2);
+  const indices = [0];
+  let a = 0;
+
+  for (let bucket = 0; bucket < maxPoints - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+
+    // Average of the next bucket is the third triangle vertex
+    const nextEnd = Math.min(
+      Math.floor((bucket + 2) * bucketSize) + 1,
+      data.length
+    );
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = end; i < nextEnd; i++) {
+      avgX += x(i);
+      avgY += y(i);
+    }
+    const nextCount = Math.max(1, nextEnd - end);
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    let maxArea = -1;
+    let chosen = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (x(a) - avgX) * (y(i) - y(a)) - (x(a) - x(i)) * (avgY - y(a))
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = i;
+      }
+    }
+
+    indices.push(chosen);
+    a = chosen;
+  }
+
+  indices.push(data.length - 1);
+  return indices;
+};
+
+// Keeps the lowest and highest value of each bucket so spikes survive
+const minMax = (
+  data: Record<string, string | number>[],
+  maxPoints: number,
+  yKey: string
+) => {
+  // A bucket gives two points, so a budget of one can't fit any
+  if (maxPoints < 2) return strideIndices(data.length, maxPoints);
+  const buckets = Math.floor(maxPoints / 2);
+  const bounds = [...strideIndices(data.length, buckets), data.length];
+  const indices: number[] = [];
+
+  for (let b = 0; b < buckets; b++) {
+    let minIndex = bounds[b];
+    let maxIndex = bounds[b];
+    for (let i = bounds[b]; i < bounds[b + 1]; i++) {
+      const value = toNumber(data[i][yKey], NaN);
+      if (value < toNumber(data[minIndex][yKey], Infinity)) minIndex = i;
+      if (value > toNumber(data[maxIndex][yKey], -Infinity)) maxIndex = i;
+    }
+    indices.push(Math.min(minIndex, maxIndex));
+    if (minIndex !== maxIndex) indices.push(Math.max(minIndex, maxIndex));
+  }
+
+  return indices;
+};
+
+/**
+ * Proportional share of the budget per category, at least one row each.
+ * With more categories than points, an even spread of them gets one row
+ */
+const stratified = (
+  data: Record<string, string | number>[],
+  maxPoints: number,
+  stratifyKey: string
+) => {
+  const strata = new Map<string, number[]>();
+  data.forEach((row, i) => {
+    const key = String(row[stratifyKey] ?? "");
+    if (!strata.has(key)) strata.set(key, []);
+    strata.get(key)!.push(i);
+  });
+
+  const all = [...strata.values()];
+  const groups =
+    all.length > maxPoints
+      ? strideIndices(all.length, maxPoints).map((i) => all[i])
+      : all;
+
+  // Points beyond the one per group go by size, largest remainders first
+  const total = groups.reduce((sum, members) => sum + members.length, 0);
+  const spare = maxPoints - groups.length;
+  const exact = groups.map((members) => (spare * members.length) / total);
+  const counts = groups.map((members, g) =>
+    Math.min(members.length, 1 + Math.floor(exact[g]))
+  );
+  let left = maxPoints - counts.reduce((sum, n) => sum + n, 0);
+  const byRemainder = groups
+    .map((_, g) => g)
+    .sort((a, b) => (exact[b] % 1) - (exact[a] % 1));
+  // Groups already taking every row pass their turn on, so this can go round
+  // more than once
+  while (left > 0 && counts.some((n, g) => n < groups[g].length)) {
+    for (const g of byRemainder) {
+      if (left === 0) break;
+      if (counts[g] < groups[g].length) {
+        counts[g]++;
+        left--;
+      }
+    }
+  }
+
+  // Rows are taken at an offset into each slice of a group that shifts from
+  // group to group, so one-row groups don't all give their first row
+  const indices: number[] = [];
+  groups.forEach((members, g) => {
+    const offset = (g + 0.5) / groups.length;
+    for (let k = 0; k < counts[g]; k++) {
+      indices.push(
+        members[Math.floor(((k + offset) * members.length) / counts[g])]
+      );
+    }
+  });
+  return indices.sort((a, b) => a - b);
+};
+
+// Mulberry32: tiny deterministic PRNG so a seed reproduces the same sample
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const randomIndices = (length: number, maxPoints: number, seed: number) => {
+  const random = seededRandom(seed);
+  const pool = Array.from({ length }, (_, i) => i);
+
+  // Partial Fisher-Yates shuffle, only the first maxPoints slots are needed
+  for (let i = 0; i < maxPoints; i++) {
+    const j = i + Math.floor(random() * (length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  return pool.slice(0, maxPoints).sort((a, b) => a - b);
+};
+
+// Sample large datasets for better performance. Row order is preserved
 export const sampleData = (
   data: Record<string, string | number>[],
-  maxPoints: number = 100
+  maxPoints: number = 100,
+  options: SamplingOptions = {}
 ): Record<string, string | number>[] => {
   if (data.length <= maxPoints) return data;
 
-  // Sample evenly across the dataset
-  const step = Math.floor(data.length / maxPoints);
-  const sampled: Record<string, string | number>[] = [];
+  const { strategy = "stride", xKey, yKey, stratifyKey, seed = 1 } = options;
+  let indices: number[];
 
-  for (let i = 0; i < data.length; i += step) {
-    sampled.push(data[i]);
-    if (sampled.length >= maxPoints) break;
+  if (strategy === "lttb" && yKey) {
+    indices = lttb(data, maxPoints, xKey, yKey);
+  } else if (strategy === "minmax" && yKey) {
+    indices = minMax(data, maxPoints, yKey);
+  } else if (strategy === "stratified" && stratifyKey) {
+    indices = stratified(data, maxPoints, stratifyKey);
+  } else if (strategy === "random") {
+    indices = randomIndices(data.length, maxPoints, seed);
+  } else {
+    // Sample evenly across the dataset
+    indices = strideIndices(data.length, maxPoints);
   }
 
-  return sampled;
+  return indices.map((i) => data[i]);
+};
+
+// Short random id for list items (crypto.randomUUID needs a secure context,
+// which `vite --host` over plain http on the LAN doesn't provide)
+export const createId = (): string => Math.random().toString(36).slice(2, 10);
+
+// Saves generated content through a temporary object URL
+export const downloadFile = (
+  fileName: string,
+  content: BlobPart,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 };
@@ -0,0 +1,212 @@
+import * as XLSX from "xlsx";
+
+export type ImportFormat = "delimited" | "json" | "ndjson" | "xlsx";
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string }[] = [
+  { value: "delimited", label: "CSV / TSV / delimited text" },
+  { value: "json", label: "JSON array" },
+  { value: "ndjson", label: "JSON Lines (NDJSON)" },
+  { value: "xlsx", label: "Excel workbook" },
+];
+
+// An empty delimiter lets Papa guess from the first lines
+export const DELIMITERS: { value: string; label: string }[] = [
+  { value: "", label: "Auto-detect" },
+  { value: ",", label: "Comma" },
+  { value: "\t", label: "Tab" },
+  { value: ";", label: "Semicolon" },
+  { value: "|", label: "Pipe" },
+];
+
+export const ENCODINGS = ["utf-8", "utf-16le", "windows-1252", "iso-8859-1"];
+
+export type ImportOptions = {
+  format: ImportFormat;
+  delimiter: string;
+  hasHeader: boolean;
+  encoding: string;
+  // Sheet name for workbooks, empty for the first sheet
+  sheet: string;
+};
+
+export type ImportPreview = {
+  columns: string[];
+  rows: Record<string, string>[];
+  // Delimiter Papa settled on, and the workbook's sheets
+  delimiter?: string;
+  sheets?: string[];
+};
+
+/**
+ * Guesses the format from the file extension, falling back to the first
+ * non-blank characters for pasted text and unknown extensions
+ */
+export const detectFormat = (name: string, head: string): ImportFormat => {
+  const extension = name.toLowerCase().split(".").pop() ?? "";
+  if (["xlsx", "xlsm", "xls"].includes(extension)) return "xlsx";
+  if (["jsonl", "ndjson"].includes(extension)) return "ndjson";
+  if (extension === "json") return "json";
+  if (["csv", "tsv", "txt"].includes(extension)) return "delimited";
+
+  const trimmed = head.trimStart();
+  if (trimmed.startsWith("[")) return "json";
+  if (trimmed.startsWith("{")) {
+    // Several objects on separate lines means JSON Lines
+    const lines = trimmed.split(/\r?\n/).filter((line) => line.trim());
+    return lines.length > 1 && lines[1].trim().startsWith("{")
+      ? "ndjson"
+      : "json";
+  }
+  return "delimited";
+};
+
+export const defaultImportOptions = (
+  name: string,
+  head: string
+): ImportOptions => {
+  const extension = name.toLowerCase().split(".").pop();
+  return {
+    format: detectFormat(name, head),
+    delimiter: extension === "tsv" ? "\t" : "",
+    hasHeader: true,
+    encoding: "utf-8",
+    sheet: "",
+  };
+};
+
+// Spreadsheet-style column names for files without a header row
+const genericColumn = (index: number) => `Column ${index + 1}`;
+
+export const genericColumns = (width: number): string[] =>
+  Array.from({ length: width }, (_, i) => genericColumn(i));
+
+// Everything enters the pipeline as text, the schema step re-types it
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export const recordFromCells = (
+  columns: string[],
+  cells: unknown[]
+): Record<string, string> =>
+  Object.fromEntries(columns.map((c, i) => [c, cellToString(cells[i])]));
+
+// Blank or repeated header cells would overwrite each other, so rename them
+export const uniqueColumns = (header: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return header.map((cell, index) => {
+    const base = cell.trim() || genericColumn(index);
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+};
+
+/**
+ * Turns a grid of cells into records, using the first row as the header or
+ * generated "Column N" names when there is none
+ */
+export const rowsFromMatrix = (
+  matrix: unknown[][],
+  hasHeader: boolean
+): { columns: string[]; rows: Record<string, string>[] } => {
+  const width = matrix.reduce((w, row) => Math.max(w, row.length), 0);
+  const columns = hasHeader
+    ? uniqueColumns(
+        Array.from({ length: width }, (_, i) => cellToString(matrix[0]?.[i]))
+      )
+    : genericColumns(width);
+
+  const rows = matrix
+    .slice(hasHeader ? 1 : 0)
+    .filter((row) => row.some((cell) => cellToString(cell) !== ""))
+    .map((row) => recordFromCells(columns, row));
+
+  return { columns, rows };
+};
+
+// Objects from JSON sources, nested values are kept as JSON text
+const recordsFromObjects = (items: unknown[]) => {
+  const objects = items.filter(
+    (item): item is Record<string, unknown> =>
+      typeof item === "object" && item !== null && !Array.isArray(item)
+  );
+
+  // Union of keys in first-seen order, since records may be sparse
+  const columns = [...new Set(objects.flatMap((item) => Object.keys(item)))];
+  const rows = objects.map((item) =>
+    recordFromCells(
+      columns,
+      columns.map((c) => item[c])
+    )
+  );
+  return { columns, rows };
+};
+
+/**
+ * A JSON array of objects (or of arrays, treated like CSV rows). Objects
+ * wrapping the array, as in { "data": [...] }, are unwrapped
+ */
+export const parseJsonRows = (text: string, hasHeader: boolean) => {
+  let parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed) && typeof parsed === "object" && parsed) {
+    parsed = Object.values(parsed).find(Array.isArray) ?? [parsed];
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("JSON must be an array of records.");
+  }
+
+  return parsed.every(Array.isArray)
+    ? rowsFromMatrix(parsed as unknown[][], hasHeader)
+    : recordsFromObjects(parsed);
+};
+
+// One JSON object per line, blank lines ignored
+export const parseNdjsonRows = (text: string) => {
+  const items = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as unknown;
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON.`);
+      }
+    });
+  return recordsFromObjects(items);
+};
+
+export const listSheets = (buffer: ArrayBuffer): string[] =>
+  XLSX.read(buffer, { type: "array", bookSheets: true }).SheetNames;
+
+// Cells as formatted text so dates and percentages keep their display form
+export const parseSheetRows = (
+  buffer: ArrayBuffer,
+  sheet: string,
+  hasHeader: boolean
+) => {
+  const workbook = XLSX.read(buffer, { type: "array" });
+  const name = sheet || workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[name];
+  if (!worksheet) throw new Error(`Sheet "${name}" not found.`);
+
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    raw: false,
+    defval: "",
+  });
+  return rowsFromMatrix(matrix, hasHeader);
+};
+
+// Text of a file in the chosen encoding (File.text() only reads UTF-8)
+export const readText = async (file: File, encoding: string) =>
+  new TextDecoder(encoding).decode(await file.arrayBuffer());
+
+// Pasted text goes through the same path as files. Without an extension
+// the format is detected from the content
+export const PASTED_FILE_NAME = "Pasted data";
+
+export const fileFromText = (text: string) =>
+  new File([text], PASTED_FILE_NAME, { type: "text/plain" });
@@ -0,0 +1,71 @@
+import type { Analysis, AnalysisRequest } from "./analysis";
+import type { CleaningIssues, CleaningStep } from "./cleaning";
+import type { CompareSpec, DatasetInfo, JoinSpec } from "./datasets";
+import type { ImportOptions, ImportPreview } from "./importers";
+import type { ColumnSchema } from "./schema";
+import type { SessionRecord } from "./sessions";
+
+type Row = Record<string, string | number>;
+
+// Id and display name for a dataset that is about to be created
+type DatasetTarget = { id: string; name: string };
+
+// Messages the dashboard sends to the ingestion worker
+export type IngestRequest =
+  | { type: "preview"; id: number; file: File; options: ImportOptions }
+  | {
+      type: "parse";
+      file: File;
+      options: ImportOptions;
+      target: DatasetTarget;
+    }
+  | { type: "join"; target: DatasetTarget; spec: JoinSpec }
+  | { type: "activate"; id: string }
+  | { type: "remove"; id: string }
+  | { type: "retype"; schema: ColumnSchema[] }
+  // Replaces the active dataset's cleaning steps and re-derives its rows
+  | { type: "clean"; steps: CleaningStep[] }
+  | { type: "compare"; id: number; spec: CompareSpec }
+  // Persist rows of the listed datasets for a session, dropping the others
+  | { type: "saveRows"; sessionId: string; datasetIds: string[] }
+  | { type: "openSession"; id: string }
+  // Computes the current view over the active dataset's rows
+  | { type: "analyze"; id: number; request: AnalysisRequest };
+
+// Messages the worker posts back
+export type IngestResponse =
+  | { type: "preview"; id: number; preview: ImportPreview }
+  | { type: "previewError"; id: number; message: string }
+  | { type: "progress"; loaded: number; total: number; rows: number }
+  | {
+      // A dataset became active, freshly parsed or joined or switched to
+      type: "loaded";
+      dataset: DatasetInfo;
+      sample: Row[];
+      issues: CleaningIssues;
+      errorCount: number;
+      errors: string[];
+    }
+  | { type: "typed"; sample: Row[] }
+  | {
+      type: "cleaned";
+      dataset: DatasetInfo;
+      sample: Row[];
+      issues: CleaningIssues;
+    }
+  | { type: "analyzed"; id: number; analysis: Analysis }
+  | { type: "compared"; id: number; rows: Row[] }
+  | { type: "sessionOpened"; session: SessionRecord }
+  | { type: "error"; message: string };
+
+export type ParseProgress = { loaded: number; total: number; rows: number };
+
+/**
+ * Parsing, typing and everything computed over all rows (filtering, sorting,
+ * sampling, statistics, quality checks) run off the main thread. The rows
+ * stay in the worker, the dashboard gets results and a bounded sample
+ */
+export const createIngestWorker = () =>
+  new Worker(new URL("./ingest.worker.ts", import.meta.url), {
+    type: "module",
+  });
@@ -0,0 +1,463 @@
+import Papa from "papaparse";
+import { analyzeRows, type AnalysisCache } from "./analysis";
+import {
+  applyCleaning,
+  cleanedSchema,
+  computedNames,
+  findCleaningIssues,
+  renamesBetween,
+  type CleaningStep,
+} from "./cleaning";
+import {
+  compareDatasets,
+  joinRows,
+  type DatasetInfo,
+  type JoinSpec,
+} from "./datasets";
+import { INFERENCE_ROWS, applyComputedColumns } from "./expressions";
+import { sampleData } from "./functions";
+import type { IngestRequest, IngestResponse } from "./ingest";
+import {
+  genericColumns,
+  listSheets,
+  parseJsonRows,
+  parseNdjsonRows,
+  parseSheetRows,
+  readText,
+  recordFromCells,
+  rowsFromMatrix,
+  uniqueColumns,
+  type ImportOptions,
+} from "./importers";
+import { applySchema, inferSchema, type ColumnSchema } from "./schema";
+import {
+  getSession,
+  getSessionRows,
+  pruneDatasetRows,
+  putDatasetRows,
+} from "./sessions";
+
+type Row = Record<string, string | number>;
+
+// Report at most this many parse errors in detail, the rest are only counted
+const MAX_REPORTED_ERRORS = 5;
+const PREVIEW_ROWS = 10;
+
+type StoredDataset = {
+  info: DatasetInfo;
+  // The rows as loaded, cleaning steps are replayed over them on every change
+  loadedRows: Record<string, string>[];
+  loadedColumns: string[];
+  // Raw string rows after cleaning, kept so schema overrides can re-type them
+  sourceRows: Record<string, string>[];
+  typedRows: Row[];
+};
+
+// Every loaded dataset by id, charts and schema edits use the active one
+const datasets = new Map<string, StoredDataset>();
+let active: StoredDataset | null = null;
+
+// Sorted and filtered rows, statistics and checks of the active dataset,
+// reused by the next analysis until its rows or schema change
+const analysisCache: AnalysisCache = new Map();
+
+// "sessionId:datasetId" pairs whose rows are already in IndexedDB
+const persisted = new Set<string>();
+
+// Bumped on every new file so chunks of an abandoned parse stop early
+let parseGeneration = 0;
+
+// Source columns are converted first, computed columns are evaluated on those
+const typeRows = (rows: Record<string, string>[], schema: ColumnSchema[]) =>
+  applyComputedColumns(applySchema(rows, schema), schema);
+
+const post = (message: IngestResponse) => self.postMessage(message);
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// Computed columns have no source cells to join, so joins leave them out
+const sourceColumns = (schema: ColumnSchema[]) =>
+  schema.filter((c) => c.expression === undefined).map((c) => c.name);
+
+const cleaningIssues = (dataset: StoredDataset) =>
+  findCleaningIssues(dataset.sourceRows, sourceColumns(dataset.info.schema));
+
+// Enough rows to preview a computed column and infer its type
+const rowSample = (dataset: StoredDataset) =>
+  sampleData(dataset.typedRows, INFERENCE_ROWS);
+
+const activate = (
+  dataset: StoredDataset,
+  errorCount = 0,
+  errors: string[] = []
+) => {
+  active = dataset;
+  analysisCache.clear();
+  post({
+    type: "loaded",
+    dataset: dataset.info,
+    sample: rowSample(dataset),
+    issues: cleaningIssues(dataset),
+    errorCount,
+    errors,
+  });
+};
+
+// Rows are typed, stored and handed to the dashboard as the active dataset
+const storeDataset = (
+  target: { id: string; name: string },
+  rows: Record<string, string>[],
+  columns: string[],
+  errorCount = 0,
+  errors: string[] = []
+) => {
+  const schema = inferSchema(rows, columns);
+  const dataset = {
+    info: { ...target, schema, rowCount: rows.length },
+    loadedRows: rows,
+    loadedColumns: columns,
+    sourceRows: rows,
+    typedRows: typeRows(rows, schema),
+  };
+  datasets.set(target.id, dataset);
+  activate(dataset, errorCount, errors);
+};
+
+const joinDatasets = (target: { id: string; name: string }, spec: JoinSpec) => {
+  const left = datasets.get(spec.leftId);
+  const right = datasets.get(spec.rightId);
+  if (!left || !right) {
+    post({ type: "error", message: "Join Error: dataset not found." });
+    return;
+  }
+
+  const { columns, rows } = joinRows(
+    left.sourceRows,
+    right.sourceRows,
+    spec,
+    sourceColumns(left.info.schema),
+    sourceColumns(right.info.schema),
+    right.info.name
+  );
+  storeDataset(target, rows, columns);
+};
+
+// Delimited text is streamed in chunks so progress can be reported
+const parseDelimited = (
+  file: File,
+  options: ImportOptions,
+  target: { id: string; name: string },
+  generation: number
+) => {
+  const rows: Record<string, string>[] = [];
+  const errors: string[] = [];
+  let errorCount = 0;
+  let columns: string[] | null = null;
+  let line = 0;
+
+  const reportError = (message: string) => {
+    errorCount++;
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push(message);
+  };
+
+  Papa.parse<string[]>(file, {
+    header: false,
+    skipEmptyLines: true,
+    delimiter: options.delimiter,
+    encoding: options.encoding,
+    chunk: (results, parser) => {
+      if (generation !== parseGeneration) {
+        parser.abort();
+        return;
+      }
+
+      for (const cells of results.data) {
+        line++;
+        if (!columns) {
+          columns = options.hasHeader
+            ? uniqueColumns(cells)
+            : genericColumns(cells.length);
+          if (options.hasHeader) continue;
+        }
+        if (cells.length !== columns.length) {
+          reportError(
+            `Row ${line}: expected ${columns.length} fields but found ${cells.length}`
+          );
+        }
+        rows.push(recordFromCells(columns, cells));
+      }
+      for (const error of results.errors) reportError(error.message);
+
+      post({
+        type: "progress",
+        loaded: results.meta.cursor,
+        total: file.size,
+        rows: rows.length,
+      });
+    },
+    complete: () => {
+      if (generation !== parseGeneration) return;
+      storeDataset(target, rows, columns ?? [], errorCount, errors);
+    },
+    error: (error) => {
+      if (generation !== parseGeneration) return;
+      post({ type: "error", message: `Parsing Error: ${error.message}` });
+    },
+  });
+};
+
+// Re-derives the active dataset from its rows as loaded and the new steps
+const cleanDataset = (steps: CleaningStep[]) => {
+  if (!active) return;
+  const { rows, columns } = applyCleaning(
+    active.loadedRows,
+    active.loadedColumns,
+    steps,
+    computedNames(active.info.schema)
+  );
+  const schema = cleanedSchema(
+    active.info.schema,
+    inferSchema(rows, columns),
+    renamesBetween(active.info.cleaning ?? [], steps)
+  );
+  active.info = {
+    ...active.info,
+    schema,
+    rowCount: rows.length,
+    cleaning: steps,
+  };
+  active.sourceRows = rows;
+  active.typedRows = typeRows(rows, schema);
+  analysisCache.clear();
+  post({
+    type: "cleaned",
+    dataset: active.info,
+    sample: rowSample(active),
+    issues: cleaningIssues(active),
+  });
+};
+
+// Rows as loaded never change, so each dataset is written only once
+const saveRows = async (sessionId: string, datasetIds: string[]) => {
+  try {
+    for (const id of datasetIds) {
+      const dataset = datasets.get(id);
+      if (!dataset || persisted.has(`${sessionId}:${id}`)) continue;
+      await putDatasetRows(sessionId, id, dataset.loadedRows);
+      persisted.add(`${sessionId}:${id}`);
+    }
+    await pruneDatasetRows(sessionId, datasetIds);
+  } catch (error) {
+    post({ type: "error", message: `Session Error: ${errorMessage(error)}` });
+  }
+};
+
+// Replaces the open datasets with the session's and activates its dataset
+const openSession = async (id: string) => {
+  try {
+    const session = await getSession(id);
+    if (!session) throw new Error("Session not found.");
+    const stored = await getSessionRows(id);
+
+    datasets.clear();
+    active = null;
+    for (const info of session.datasets) {
+      const rows = stored.find((r) => r.datasetId === info.id)?.rows ?? [];
+      const loadedColumns = Object.keys(rows[0] ?? {});
+      const cleaned = applyCleaning(
+        rows,
+        loadedColumns,
+        info.cleaning ?? [],
+        computedNames(info.schema)
+      );
+      datasets.set(info.id, {
+        info,
+        loadedRows: rows,
+        loadedColumns,
+        sourceRows: cleaned.rows,
+        typedRows: typeRows(cleaned.rows, info.schema),
+      });
+      persisted.add(`${id}:${info.id}`);
+    }
+
+    const dataset =
+      datasets.get(session.activeDatasetId) ?? datasets.values().next().value;
+    if (dataset) activate(dataset);
+    post({ type: "sessionOpened", session });
+  } catch (error) {
+    post({ type: "error", message: `Session Error: ${errorMessage(error)}` });
+  }
+};
+
+// JSON and workbooks have to be read whole, so they have no partial progress
+const readRows = async (file: File, options: ImportOptions) => {
+  switch (options.format) {
+    case "json":
+      return parseJsonRows(
+        await readText(file, options.encoding),
+        options.hasHeader
+      );
+    case "ndjson":
+      return parseNdjsonRows(await readText(file, options.encoding));
+    default:
+      return parseSheetRows(
+        await file.arrayBuffer(),
+        options.sheet,
+        options.hasHeader
+      );
+  }
+};
+
+const parseFile = async (
+  file: File,
+  options: ImportOptions,
+  target: { id: string; name: string }
+) => {
+  const generation = ++parseGeneration;
+  if (options.format === "delimited") {
+    parseDelimited(file, options, target, generation);
+    return;
+  }
+
+  try {
+    const { columns, rows } = await readRows(file, options);
+    if (generation !== parseGeneration) return;
+    post({
+      type: "progress",
+      loaded: file.size,
+      total: file.size,
+      rows: rows.length,
+    });
+    storeDataset(target, rows, columns);
+  } catch (error) {
+    if (generation !== parseGeneration) return;
+    post({ type: "error", message: `Parsing Error: ${errorMessage(error)}` });
+  }
+};
+
+// First rows of the file with the chosen options, for the import dialog
+const previewFile = async (id: number, file: File, options: ImportOptions) => {
+  try {
+    if (options.format === "delimited") {
+      Papa.parse<string[]>(file, {
+        header: false,
+        skipEmptyLines: true,
+        delimiter: options.delimiter,
+        encoding: options.encoding,
+        preview: PREVIEW_ROWS + 1,
+        complete: (results) => {
+          const { columns, rows } = rowsFromMatrix(
+            results.data,
+            options.hasHeader
+          );
+          post({
+            type: "preview",
+            id,
+            preview: {
+              columns,
+              rows: rows.slice(0, PREVIEW_ROWS),
+              delimiter: results.meta.delimiter,
+            },
+          });
+        },
+        error: (error) =>
+          post({ type: "previewError", id, message: error.message }),
+      });
+      return;
+    }
+
+    const { columns, rows } = await readRows(file, options);
+    post({
+      type: "preview",
+      id,
+      preview: {
+        columns,
+        rows: rows.slice(0, PREVIEW_ROWS),
+        sheets:
+          options.format === "xlsx"
+            ? listSheets(await file.arrayBuffer())
+            : undefined,
+      },
+    });
+  } catch (error) {
+    post({ type: "previewError", id, message: errorMessage(error) });
+  }
+};
+
+self.addEventListener("message", (event: MessageEvent<IngestRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "preview":
+      previewFile(request.id, request.file, request.options);
+      break;
+    case "parse":
+      parseFile(request.file, request.options, request.target);
+      break;
+    case "join":
+      joinDatasets(request.target, request.spec);
+      break;
+    case "activate": {
+      const dataset = datasets.get(request.id);
+      if (dataset) activate(dataset);
+      break;
+    }
+    case "remove":
+      datasets.delete(request.id);
+      if (active?.info.id === request.id) {
+        active = null;
+        analysisCache.clear();
+      }
+      break;
+    case "retype":
+      if (!active) break;
+      active.info = { ...active.info, schema: request.schema };
+      active.typedRows = typeRows(active.sourceRows, request.schema);
+      analysisCache.clear();
+      post({ type: "typed", sample: rowSample(active) });
+      break;
+    case "clean":
+      cleanDataset(request.steps);
+      break;
+    case "compare": {
+      const { spec } = request;
+      const left = datasets.get(spec.leftId);
+      const right = datasets.get(spec.rightId);
+      post({
+        type: "compared",
+        id: request.id,
+        rows:
+          left && right
+            ? compareDatasets(
+                left.typedRows,
+                right.typedRows,
+                spec.xKey,
+                spec.yKey,
+                spec.aggregation
+              )
+            : [],
+      });
+      break;
+    }
+    case "saveRows":
+      saveRows(request.sessionId, request.datasetIds);
+      break;
+    case "openSession":
+      openSession(request.id);
+      break;
+    case "analyze":
+      if (!active) break;
+      post({
+        type: "analyzed",
+        id: request.id,
+        analysis: analyzeRows(
+          active.typedRows,
+          active.info.schema,
+          request.request,
+          analysisCache
+        ),
+      });
+      break;
+  }
+});
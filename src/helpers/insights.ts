@@ -0,0 +1,87 @@
+import { CHART_TYPES, type ChartType } from "./charts";
+import { isNumericType, type ColumnSchema } from "./schema";
+import { objectSchema, oneOfSchema, type StructuredFormat } from "./structured";
+
+export type ChartSuggestion = {
+  chartType: ChartType;
+  xColumn: string;
+  yColumns: string[];
+  reason: string;
+};
+
+// The AI summary of a dataset, rendered as cards on the dashboard
+export type DataInsights = {
+  headline: string;
+  keyFindings: { title: string; detail: string }[];
+  outliers: { column: string; description: string }[];
+  suggestedCharts: ChartSuggestion[];
+  confidence: "low" | "medium" | "high";
+  confidenceReason: string;
+};
+
+export const CONFIDENCE_LEVELS: DataInsights["confidence"][] = [
+  "low",
+  "medium",
+  "high",
+];
+
+/**
+ * The insights schema for a dataset. Column fields only accept the
+ * dataset's own column names, so suggested charts can be applied as is
+ */
+export const insightsFormat = (
+  schema: ColumnSchema[]
+): StructuredFormat<DataInsights> => {
+  const columns = schema.map((c) => c.name);
+  const numeric = schema
+    .filter((c) => isNumericType(c.type))
+    .map((c) => c.name);
+
+  return {
+    name: "data_insights",
+    schema: objectSchema({
+      headline: {
+        type: "string",
+        description: "The most important takeaway in one sentence",
+      },
+      keyFindings: {
+        type: "array",
+        description: "Three to five findings, most important first",
+        items: objectSchema({
+          title: { type: "string" },
+          detail: { type: "string" },
+        }),
+      },
+      outliers: {
+        type: "array",
+        description:
+          "Unusual values or groups worth a closer look, may be empty",
+        items: objectSchema({
+          column: oneOfSchema(columns, "Column the outlier is in"),
+          description: { type: "string" },
+        }),
+      },
+      suggestedCharts: {
+        type: "array",
+        description: "Up to three charts worth looking at next",
+        items: objectSchema({
+          chartType: {
+            type: "string",
+            enum: Object.keys(CHART_TYPES),
+          },
+          xColumn: oneOfSchema(columns, "Column for the X axis"),
+          yColumns: {
+            type: "array",
+            items: oneOfSchema(numeric, "Numeric column for the Y axis"),
+          },
+          reason: { type: "string" },
+        }),
+      },
+      confidence: { type: "string", enum: CONFIDENCE_LEVELS },
+      confidenceReason: {
+        type: "string",
+        description: "Why the confidence is what it is, e.g. sample size",
+      },
+    }),
+  };
+};
@@ -0,0 +1,195 @@
+import { isMissing } from "./functions";
+import { isNumericType, type ColumnSchema, type ColumnType } from "./schema";
+
+export type ColumnProfile = {
+  name: string;
+  type: ColumnType;
+  count: number;
+  missing: number;
+  distinct: number;
+  min?: number;
+  max?: number;
+  mean?: number;
+  median?: number;
+  stddev?: number;
+  earliest?: string;
+  latest?: string;
+  topCategories?: { value: string; count: number }[];
+};
+
+export type Correlation = {
+  a: string;
+  b: string;
+  r: number;
+};
+
+export type DatasetProfile = {
+  rowCount: number;
+  columns: ColumnProfile[];
+  correlations: Correlation[];
+};
+
+// Keeps the JSON sent to the model short without losing meaningful precision
+const round = (value: number, digits: number = 3) =>
+  Number(value.toFixed(digits));
+
+export const median = (sorted: number[]): number => {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+};
+
+const profileColumn = (
+  data: Record<string, string | number>[],
+  { name, type }: ColumnSchema,
+  topN: number
+): ColumnProfile => {
+  const values = data.map((row) => row[name]).filter((v) => !isMissing(v));
+  const missing = data.length - values.length;
+  const distinct = new Set(values).size;
+
+  if (isNumericType(type) && values.length > 0) {
+    const nums = values
+      .filter((v): v is number => typeof v === "number")
+      .sort((a, b) => a - b);
+    const mean = nums.reduce((sum, v) => sum + v, 0) / nums.length;
+    const variance =
+      nums.reduce((sum, v) => sum + (v - mean) ** 2, 0) / nums.length;
+
+    return {
+      name,
+      type,
+      count: nums.length,
+      missing,
+      distinct,
+      min: nums[0],
+      max: nums[nums.length - 1],
+      mean: round(mean),
+      median: round(median(nums)),
+      stddev: round(Math.sqrt(variance)),
+    };
+  }
+
+  // ISO date strings sort chronologically as plain text
+  if (type === "date") {
+    const dates = values.map(String).sort();
+    return {
+      name,
+      type,
+      count: values.length,
+      missing,
+      distinct,
+      earliest: dates[0],
+      latest: dates[dates.length - 1],
+    };
+  }
+
+  const counts = new Map<string, number>();
+  values.forEach((v) =>
+    counts.set(String(v), (counts.get(String(v)) || 0) + 1)
+  );
+  const topCategories = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topN)
+    .map(([value, count]) => ({ value, count }));
+
+  return {
+    name,
+    type,
+    count: values.length,
+    missing,
+    distinct,
+    topCategories,
+  };
+};
+
+// Pearson correlation over rows where both columns are present
+export const pearson = (
+  data: Record<string, string | number>[],
+  a: string,
+  b: string
+): number | null => {
+  let n = 0;
+  let sumA = 0;
+  let sumB = 0;
+  let sumAB = 0;
+  let sumA2 = 0;
+  let sumB2 = 0;
+
+  for (const row of data) {
+    const x = row[a];
+    const y = row[b];
+    if (typeof x !== "number" || typeof y !== "number") continue;
+    n++;
+    sumA += x;
+    sumB += y;
+    sumAB += x * y;
+    sumA2 += x * x;
+    sumB2 += y * y;
+  }
+
+  const denominator = Math.sqrt(
+    (n * sumA2 - sumA * sumA) * (n * sumB2 - sumB * sumB)
+  );
+  if (n < 2 || denominator === 0) return null;
+
+  return (n * sumAB - sumA * sumB) / denominator;
+};
+
+/**
+ * Computes a compact statistical profile over the full dataset: per-column
+ * stats plus pairwise correlations between numeric columns (strongest first)
+ */
+export const profileDataset = (
+  data: Record<string, string | number>[],
+  schema: ColumnSchema[],
+  topN: number = 5
+): DatasetProfile => {
+  const profiles = schema.map((column) => profileColumn(data, column, topN));
+  const numeric = profiles.filter((p) => isNumericType(p.type));
+
+  const correlations: Correlation[] = [];
+  numeric.forEach((colA, i) => {
+    numeric.slice(i + 1).forEach((colB) => {
+      const r = pearson(data, colA.name, colB.name);
+      if (r === null) return;
+      correlations.push({ a: colA.name, b: colB.name, r: round(r) });
+    });
+  });
+  correlations.sort((x, y) => Math.abs(y.r) - Math.abs(x.r));
+
+  return { rowCount: data.length, columns: profiles, correlations };
+};
+
+/**
+ * Least-squares fit y = slope * x + intercept over rows where both are numbers
+ */
+export const linearRegression = (
+  data: Record<string, string | number>[],
+  xKey: string,
+  yKey: string
+): { slope: number; intercept: number } | null => {
+  let n = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumX2 = 0;
+
+  for (const row of data) {
+    const x = row[xKey];
+    const y = row[yKey];
+    if (typeof x !== "number" || typeof y !== "number") continue;
+    n++;
+    sumX += x;
+    sumY += y;
+    sumXY += x * y;
+    sumX2 += x * x;
+  }
+
+  const denominator = n * sumX2 - sumX * sumX;
+  if (n < 2 || denominator === 0) return null;
+
+  const slope = (n * sumXY - sumX * sumY) / denominator;
+  return { slope, intercept: (sumY - slope * sumX) / n };
+};
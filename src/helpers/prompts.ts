@@ -0,0 +1,396 @@
+import Papa from "papaparse";
+import { aggregateData } from "./aggregate";
+import type { FlaggedRecord, QualityReport } from "./anomalies";
+import { sampleData } from "./functions";
+import type { ColumnProfile, DatasetProfile } from "./profile";
+import type { ChatMessage, ProviderConfig } from "./providers";
+import { TONES, type Tone } from "./refine";
+
+export type ModelInfo = {
+  contextWindow: number;
+  // USD per million tokens, unknown for most local models
+  inputPrice?: number;
+  outputPrice?: number;
+};
+
+// Matched by prefix, so more specific names come first
+const MODELS: [string, ModelInfo][] = [
+  [
+    "gpt-4.1-nano",
+    { contextWindow: 1047576, inputPrice: 0.1, outputPrice: 0.4 },
+  ],
+  [
+    "gpt-4.1-mini",
+    { contextWindow: 1047576, inputPrice: 0.4, outputPrice: 1.6 },
+  ],
+  ["gpt-4.1", { contextWindow: 1047576, inputPrice: 2, outputPrice: 8 }],
+  [
+    "gpt-4o-mini",
+    { contextWindow: 128000, inputPrice: 0.15, outputPrice: 0.6 },
+  ],
+  ["gpt-4o", { contextWindow: 128000, inputPrice: 2.5, outputPrice: 10 }],
+  ["gpt-4-turbo", { contextWindow: 128000, inputPrice: 10, outputPrice: 30 }],
+  [
+    "gpt-3.5-turbo",
+    { contextWindow: 16385, inputPrice: 0.5, outputPrice: 1.5 },
+  ],
+];
+
+// Ollama and most local servers default to a small context window
+const FALLBACK_MODEL: ModelInfo = { contextWindow: 8192 };
+
+export const modelInfo = (model: string): ModelInfo =>
+  MODELS.find(([prefix]) => model.startsWith(prefix))?.[1] ?? FALLBACK_MODEL;
+
+const envNumber = (value: string | undefined, fallback: number) => {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number > 0 ? number : fallback;
+};
+
+export const DEFAULT_PROMPT_BUDGET = envNumber(
+  import.meta.env.VITE_AI_PROMPT_BUDGET,
+  4000
+);
+
+// Kept free in the context window for the model's reply
+const REPLY_RESERVE = 1000;
+// Typical reply length, used for the cost estimate only
+const EXPECTED_REPLY_TOKENS = 300;
+// Share of the budget for the dataset, the rest is instructions and chat
+const CONTEXT_SHARE = 0.75;
+// Chat formats wrap every message in a few tokens of their own
+const MESSAGE_OVERHEAD = 4;
+
+/**
+ * Rough token count at about 3.5 characters a token. Numbers and CSV
+ * tokenize worse than prose, so this errs on the high side
+ */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 3.5);
+
+export const messagesTokens = (messages: ChatMessage[]) =>
+  messages.reduce(
+    (sum, m) => sum + estimateTokens(m.content) + MESSAGE_OVERHEAD,
+    0
+  );
+
+// The user's budget, capped so prompt and reply fit the model's window
+export const effectiveBudget = (budget: number, model: string) =>
+  Math.max(0, Math.min(budget, modelInfo(model).contextWindow - REPLY_RESERVE));
+
+/**
+ * Estimated USD cost of a prompt plus a typical reply. Zero for local
+ * providers, null when the model's price is unknown
+ */
+export const estimateCost = (
+  provider: ProviderConfig,
+  promptTokens: number
+): number | null => {
+  if (provider.id !== "openai") return 0;
+  const { inputPrice, outputPrice } = modelInfo(provider.model);
+  if (inputPrice === undefined || outputPrice === undefined) return null;
+  return (
+    (promptTokens * inputPrice + EXPECTED_REPLY_TOKENS * outputPrice) / 1e6
+  );
+};
+
+// One line per column, far shorter than the profile's JSON
+const describeColumn = (c: ColumnProfile) => {
+  const parts = [`missing ${c.missing}`, `distinct ${c.distinct}`];
+  if (c.min !== undefined) parts.push(`range ${c.min}–${c.max}`);
+  if (c.mean !== undefined) parts.push(`mean ${c.mean}`);
+  if (c.median !== undefined) parts.push(`median ${c.median}`);
+  if (c.stddev !== undefined) parts.push(`sd ${c.stddev}`);
+  if (c.earliest) parts.push(`from ${c.earliest} to ${c.latest}`);
+  if (c.topCategories?.length) {
+    const top = c.topCategories.map((t) => `${t.value} (${t.count})`);
+    parts.push(`top ${top.join(", ")}`);
+  }
+  return `- ${c.name} [${c.type}]: ${parts.join("; ")}`;
+};
+
+const rowsCsv = (rows: Record<string, string | number>[], columns: string[]) =>
+  Papa.unparse({
+    fields: columns,
+    data: rows.map((row) => columns.map((c) => row[c] ?? "")),
+  });
+
+type Encoding = {
+  // Columns described in full, the others are listed by name or left out
+  detail: "all" | "focus";
+  others: "names" | "omit";
+  rows:
+    | { kind: "sample"; count: number; columns: "all" | "focus" }
+    | { kind: "aggregate"; count: number }
+    | null;
+  correlations: number;
+  note?: string;
+};
+
+// Tried in order until one fits, each cheaper than the one before
+const ENCODINGS: Encoding[] = [
+  {
+    detail: "all",
+    others: "names",
+    rows: { kind: "sample", count: 40, columns: "all" },
+    correlations: 10,
+  },
+  {
+    detail: "all",
+    others: "names",
+    rows: { kind: "sample", count: 40, columns: "focus" },
+    correlations: 10,
+    note: "Sample rows only include the charted columns.",
+  },
+  {
+    detail: "all",
+    others: "names",
+    rows: { kind: "aggregate", count: 30 },
+    correlations: 10,
+    note: "Sample rows were replaced by means per X value.",
+  },
+  {
+    detail: "all",
+    others: "names",
+    rows: null,
+    correlations: 5,
+    note: "No sample rows, only column statistics.",
+  },
+  {
+    detail: "focus",
+    others: "names",
+    rows: null,
+    correlations: 5,
+    note: "Only the charted columns have statistics, the rest are named.",
+  },
+  {
+    detail: "focus",
+    others: "omit",
+    rows: null,
+    correlations: 3,
+    note: "Columns that aren't charted were left out.",
+  },
+];
+
+export type DatasetContext = {
+  text: string;
+  tokens: number;
+  budget: number;
+  // What was cut to make the dataset fit
+  note?: string;
+  // True when even the most compact encoding is over budget
+  overBudget: boolean;
+};
+
+const encodeDataset = (
+  profile: DatasetProfile,
+  rows: Record<string, string | number>[],
+  xKey: string,
+  yKeys: string[],
+  encoding: Encoding
+) => {
+  const focus = [xKey, ...yKeys].filter(Boolean);
+  const isFocus = (c: ColumnProfile) =>
+    encoding.detail === "all" || focus.includes(c.name);
+  const detailed = profile.columns.filter(isFocus);
+  const others = profile.columns.filter((c) => !isFocus(c));
+
+  const lines = [
+    `${profile.rowCount} rows, ${profile.columns.length} columns.`,
+    "Columns:",
+    ...detailed.map(describeColumn),
+  ];
+  if (others.length > 0) {
+    lines.push(
+      encoding.others === "names"
+        ? `Other columns: ${others.map((c) => c.name).join(", ")}`
+        : `${others.length} other columns not shown.`
+    );
+  }
+
+  const correlations = [...profile.correlations]
+    .filter(
+      (c) =>
+        encoding.detail === "all" || focus.includes(c.a) || focus.includes(c.b)
+    )
+    .sort((a, b) => Math.abs(b.r) - Math.abs(a.r))
+    .slice(0, encoding.correlations);
+  if (correlations.length > 0) {
+    lines.push(
+      "Strongest correlations:",
+      ...correlations.map((c) => `- ${c.a} ~ ${c.b}: r = ${c.r}`)
+    );
+  }
+
+  const { rows: rowSpec } = encoding;
+  if (rowSpec?.kind === "sample") {
+    const columns =
+      rowSpec.columns === "all" ? profile.columns.map((c) => c.name) : focus;
+    const sample = sampleData(rows, rowSpec.count);
+    lines.push(
+      `Sample of ${sample.length} rows (CSV):`,
+      rowsCsv(sample, columns)
+    );
+  } else if (rowSpec?.kind === "aggregate" && xKey && yKeys.length > 0) {
+    const means = sampleData(
+      aggregateData(rows, xKey, yKeys, "mean"),
+      rowSpec.count
+    );
+    lines.push(
+      `Mean of ${yKeys.join(", ")} per ${xKey} (CSV):`,
+      rowsCsv(means, focus)
+    );
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * Describes the dataset in as much detail as the budget allows: column
+ * statistics, correlations and sample rows as CSV, dropping rows, then the
+ * columns that aren't charted when it's too long
+ */
+export const buildDatasetContext = (
+  profile: DatasetProfile,
+  rows: Record<string, string | number>[],
+  xKey: string,
+  yKeys: string[],
+  budget: number
+): DatasetContext => {
+  const contextBudget = Math.floor(budget * CONTEXT_SHARE);
+  const has = (key: string) => profile.columns.some((c) => c.name === key);
+  const x = has(xKey) ? xKey : "";
+
+  let context: DatasetContext | null = null;
+  for (const encoding of ENCODINGS) {
+    const text = encodeDataset(profile, rows, x, yKeys.filter(has), encoding);
+    const tokens = estimateTokens(text);
+    context = { text, tokens, budget, note: encoding.note, overBudget: false };
+    if (tokens <= contextBudget) return context;
+  }
+  return { ...context!, overBudget: true };
+};
+
+const label = (key: string) => key.replace(/_/g, " ");
+
+export const summaryMessages = (
+  context: DatasetContext,
+  xKey: string,
+  yKeys: string[]
+): ChatMessage[] => [
+  {
+    role: "system",
+    content:
+      "You are a concise data analyst. Analyze the dataset description from a survey on digital well-being. Reply with a one-sentence headline, the key findings, any outliers, charts worth looking at next and how confident you are given the data shown. Only use the column names given.",
+  },
+  {
+    role: "user",
+    content: `Analyze the data focusing on the relationship between ${label(xKey)} and ${yKeys.map(label).join(", ")}. Describe key trends and patterns.\n\n${context.text}`,
+  },
+];
+
+// Turns a "show me…" request into a chart configuration
+export const viewRequestMessages = (
+  context: DatasetContext,
+  request: string
+): ChatMessage[] => [
+  {
+    role: "system",
+    content: `You configure a charting dashboard. Pick the chart type, columns, aggregation and filters that best show what the user asks for, using only the columns of the dataset described below. Filter values must be values that occur in the data.\n\n${context.text}`,
+  },
+  { role: "user", content: request },
+];
+
+// Reviews a message and rewrites it in the chosen tone
+export const refineMessages = (message: string, tone: Tone): ChatMessage[] => [
+  {
+    role: "system",
+    content: `You are a precise editor that reviews messages for completeness, tone, and clarity, then rewrites them. Change only what improves the message and keep everything else word for word. ${
+      TONES.find((t) => t.value === tone)?.instruction ?? ""
+    }`,
+  },
+  { role: "user", content: message },
+];
+
+/**
+ * Asks why the flagged records stand out. Only those records are sent, as
+ * many as fit the budget, with the checks' own findings as context
+ */
+export const anomalyMessages = (
+  report: QualityReport,
+  records: FlaggedRecord[],
+  budget: number
+): { messages: ChatMessage[]; sent: number } => {
+  const findings = report.issues
+    .map((issue) =>
+      issue.column
+        ? `- ${issue.kind} in ${issue.column}: ${issue.message}`
+        : `- ${issue.kind}: ${issue.message}`
+    )
+    .join("\n");
+  // The row number and findings go in columns of their own, renamed if the
+  // dataset already uses the name
+  const dataColumns = records.length > 0 ? Object.keys(records[0].values) : [];
+  const unused = (name: string) => {
+    let free = name;
+    while (dataColumns.includes(free)) free = `_${free}`;
+    return free;
+  };
+  const [rowColumn, issuesColumn] = [unused("Row"), unused("Issues")];
+  const columns = [rowColumn, ...dataColumns, issuesColumn];
+
+  const build = (count: number): ChatMessage[] => {
+    const sample = records.slice(0, count).map((record) => ({
+      ...record.values,
+      [rowColumn]: record.row,
+      [issuesColumn]: record.issues.join("; "),
+    }));
+    return [
+      {
+        role: "system",
+        content: `You are a careful data analyst. Rule-based checks flagged the records below in a dataset. For each group of findings, explain the likely cause (data entry error, unit mix-up, a genuine extreme, a systematic gap…) and say whether to fix, drop or keep the records. Be concise and refer to records by their ${rowColumn} number.`,
+      },
+      {
+        role: "user",
+        content: `${report.rowCount} rows were checked (outliers by ${report.method}). Findings:\n${findings}\n\nFlagged records (CSV, "${issuesColumn}" lists what was found):\n${rowsCsv(sample, columns)}`,
+      },
+    ];
+  };
+
+  let count = records.length;
+  while (count > 1 && messagesTokens(build(count)) > budget) {
+    count = Math.floor(count / 2);
+  }
+  return { messages: build(count), sent: count };
+};
+
+/**
+ * The dataset as system context followed by as much of the conversation as
+ * fits the budget. Older turns go first, the latest question always stays
+ */
+export const questionMessages = (
+  context: DatasetContext,
+  conversation: ChatMessage[]
+): { messages: ChatMessage[]; dropped: number } => {
+  const system: ChatMessage = {
+    role: "system",
+    content: `You are a helpful data analyst. Answer questions about the dataset described below in maximum 2 phrases. Be extremely concise and direct. Follow-up questions refer to the earlier conversation.\n\n${context.text}`,
+  };
+
+  let room = context.budget - messagesTokens([system]);
+  let start = conversation.length;
+  while (start > 0) {
+    const cost = messagesTokens([conversation[start - 1]]);
+    if (cost > room && start < conversation.length) break;
+    room -= cost;
+    start--;
+  }
+  // Start on a question rather than a dangling answer
+  while (
+    start < conversation.length - 1 &&
+    conversation[start].role !== "user"
+  ) {
+    start++;
+  }
+
+  return { messages: [system, ...conversation.slice(start)], dropped: start };
+};
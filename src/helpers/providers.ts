@@ -0,0 +1,205 @@
+import { AiError } from "./aiErrors";
+import { postJson, readLines, wait, type RequestPolicy } from "./aiRequest";
+import { authHeaders } from "./auth";
+import { exampleFromSchema, type StructuredFormat } from "./structured";
+
+export type ProviderId = "openai" | "ollama" | "mock";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ProviderConfig = {
+  id: ProviderId;
+  model: string;
+};
+
+export type CompletionOptions = {
+  // When set, the reply is streamed and each new chunk of text is passed here
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+  // Timeout and retry overrides for this call
+  policy?: Partial<RequestPolicy>;
+  // Asks for JSON matching this schema (structured output)
+  format?: StructuredFormat<unknown>;
+};
+
+type LlmProvider = {
+  label: string;
+  defaultModel: string;
+  complete: (
+    config: ProviderConfig,
+    messages: ChatMessage[],
+    options: CompletionOptions
+  ) => Promise<string>;
+};
+
+// Every real provider is reached through the server, which holds the API key
+const PROXY_URL = "/api/chat";
+
+/**
+ * Sends the conversation to the proxy, which forwards it to the provider
+ * and relays the reply as is. Streamed lines are handed to `parseLine`,
+ * otherwise the reply's JSON is handed to `parseReply`
+ */
+const proxyCompletion = (
+  config: ProviderConfig,
+  messages: ChatMessage[],
+  { onToken, signal, policy, format }: CompletionOptions,
+  parseReply: (data: unknown) => string,
+  parseLine: (line: string) => string | undefined
+): Promise<string> =>
+  postJson(
+    PROXY_URL,
+    {
+      provider: config.id,
+      model: config.model,
+      messages,
+      stream: !!onToken,
+      ...(format && {
+        responseFormat: { name: format.name, schema: format.schema },
+      }),
+    },
+    async (res, touch) => {
+      if (!onToken) return parseReply(await res.json());
+
+      let content = "";
+      await readLines(
+        res,
+        (line) => {
+          const token = parseLine(line);
+          if (token) {
+            content += token;
+            onToken(token);
+          }
+        },
+        touch
+      );
+      return content;
+    },
+    { headers: authHeaders(), signal, policy }
+  );
+
+type OpenAiChoice = {
+  message?: { content?: string };
+  delta?: { content?: string };
+  finish_reason?: string | null;
+};
+
+// Azure and some compatible servers end filtered replies this way
+const checkFinish = (choice: OpenAiChoice | undefined) => {
+  if (choice?.finish_reason === "content_filter") {
+    throw new AiError("content-filtered", "The reply was filtered.");
+  }
+};
+
+/**
+ * Any server speaking the OpenAI chat-completions protocol
+ * (OpenAI itself, llama.cpp server, vLLM, LM Studio, ...)
+ */
+const openAiProvider: LlmProvider = {
+  label: "OpenAI-compatible",
+  defaultModel: import.meta.env.VITE_OPENAI_MODEL || "gpt-4o-mini",
+  complete: (config, messages, options) =>
+    proxyCompletion(
+      config,
+      messages,
+      options,
+      (data) => {
+        const choice = (data as { choices?: OpenAiChoice[] }).choices?.[0];
+        checkFinish(choice);
+        return choice?.message?.content || "";
+      },
+      (line) => {
+        // Server-sent events: "data: {...}" chunks terminated by "data: [DONE]"
+        if (!line.startsWith("data:")) return;
+        const payload = line.slice(5).trim();
+        if (payload === "[DONE]") return;
+
+        const choice: OpenAiChoice | undefined =
+          JSON.parse(payload).choices?.[0];
+        checkFinish(choice);
+        return choice?.delta?.content;
+      }
+    ),
+};
+
+/**
+ * Ollama's native chat endpoint
+ */
+const ollamaProvider: LlmProvider = {
+  label: "Ollama (local)",
+  defaultModel: import.meta.env.VITE_OLLAMA_MODEL || "llama3.1",
+  complete: (config, messages, options) =>
+    proxyCompletion(
+      config,
+      messages,
+      options,
+      (data) =>
+        (data as { message?: { content?: string } }).message?.content || "",
+      // Ollama streams one JSON object per line
+      (line) => JSON.parse(line).message?.content
+    ),
+};
+
+/**
+ * Offline provider returning a deterministic reply built from the prompt,
+ * handy for UI work without burning tokens
+ */
+const mockProvider: LlmProvider = {
+  label: "Mock (offline)",
+  defaultModel: "mock-1",
+  complete: async (config, messages, { onToken, signal, format }) => {
+    if (format) {
+      await wait(300, signal);
+      return JSON.stringify(exampleFromSchema(format.schema));
+    }
+
+    const lastUser = [...messages].reverse().find((m) => m.role === "user");
+    const prompt = (lastUser?.content || "").replace(/\s+/g, " ").trim();
+    const preview = prompt.length > 80 ? `${prompt.slice(0, 80)}…` : prompt;
+    const reply = `[${config.model}] Received ${messages.length} message(s). Last prompt: "${preview}"`;
+
+    if (!onToken) return reply;
+
+    // Emit word by word so the streaming UI can be exercised offline
+    for (const token of reply.match(/\S+\s*/g) || []) {
+      await wait(30, signal);
+      onToken(token);
+    }
+
+    return reply;
+  },
+};
+
+export const PROVIDERS: Record<ProviderId, LlmProvider> = {
+  openai: openAiProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider,
+};
+
+export const getProviderDefaults = (id: ProviderId): ProviderConfig => ({
+  id,
+  model: PROVIDERS[id].defaultModel,
+});
+
+export const getDefaultProviderConfig = (): ProviderConfig => {
+  const envId = import.meta.env.VITE_AI_PROVIDER as ProviderId | undefined;
+  return getProviderDefaults(envId && envId in PROVIDERS ? envId : "openai");
+};
+
+/**
+ * Sends a chat conversation to the configured provider and returns the reply text
+ */
+export const chatCompletion = (
+  config: ProviderConfig,
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<string> => PROVIDERS[config.id].complete(config, messages, options);
+
+/**
+ * True when a request failed only because the user cancelled it
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
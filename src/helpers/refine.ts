@@ -0,0 +1,51 @@
+import { objectSchema, type StructuredFormat } from "./structured";
+
+export type Tone = "formal" | "friendly" | "concise";
+
+export const TONES: { value: Tone; label: string; instruction: string }[] = [
+  {
+    value: "formal",
+    label: "Formal",
+    instruction:
+      "Use a formal, professional register: complete sentences, no slang or contractions.",
+  },
+  {
+    value: "friendly",
+    label: "Friendly",
+    instruction:
+      "Use a warm, friendly and approachable tone while keeping it clear.",
+  },
+  {
+    value: "concise",
+    label: "Concise",
+    instruction:
+      "Make it as short as possible: drop filler and repetition, keep every fact and request.",
+  },
+];
+
+// A review of a message together with the improved version
+export type MessageRefinement = {
+  issues: string[];
+  advice: string;
+  rewrite: string;
+};
+
+export const REFINEMENT_FORMAT: StructuredFormat<MessageRefinement> = {
+  name: "message_refinement",
+  schema: objectSchema({
+    issues: {
+      type: "array",
+      description: "Problems found, empty when there are none",
+      items: { type: "string" },
+    },
+    advice: {
+      type: "string",
+      description: "How to fix or improve the message",
+    },
+    rewrite: {
+      type: "string",
+      description:
+        "The full message rewritten in the requested tone, keeping its meaning, language and line breaks",
+    },
+  }),
+};
@@ -0,0 +1,11 @@
+export type Route = "dashboard" | "refine";
+
+// Pages by hash, anything else (including "#view=…" links) is the dashboard
+export const ROUTES: { value: Route; label: string; hash: string }[] = [
+  { value: "dashboard", label: "📊 Dashboard", hash: "#/" },
+  { value: "refine", label: "✍️ Refine a message", hash: "#/refine" },
+];
+
+export const routeFromHash = (hash: string): Route =>
+  ROUTES.find((r) => r.value !== "dashboard" && r.hash === hash)?.value ??
+  "dashboard";
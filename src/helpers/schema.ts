@@ -0,0 +1,214 @@
+export type ColumnType =
+  "numeric" | "integer" | "categorical" | "boolean" | "date" | "text";
+
+export type ColumnSchema = {
+  name: string;
+  type: ColumnType;
+  // What inference picked, kept so an override can be reverted
+  inferred: ColumnType;
+  // Share of values (0-1) supporting the inferred type
+  confidence: number;
+  // Set for computed columns, evaluated over the columns before it
+  expression?: string;
+};
+
+export const COLUMN_TYPES: ColumnType[] = [
+  "numeric",
+  "integer",
+  "categorical",
+  "boolean",
+  "date",
+  "text",
+];
+
+export const isNumericType = (type: ColumnType | undefined) =>
+  type === "numeric" || type === "integer";
+
+const TRUE_TOKENS = ["true", "yes", "y", "t"];
+const FALSE_TOKENS = ["false", "no", "n", "f"];
+
+// A column needs this share of matching values to be typed as numeric/boolean/date
+const TYPE_THRESHOLD = 0.9;
+// Rows inspected during inference, spread evenly over the file
+const INFERENCE_SAMPLE = 5000;
+
+/**
+ * Parses plain numbers as well as percentages ("45%"), currency ("$1,200.50",
+ * "€ 30") and accounting negatives ("(12)"). Returns null for anything else
+ */
+export const parseNumber = (raw: string): number | null => {
+  let value = raw.trim();
+  if (value === "") return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+
+  value = value
+    .replace(/^[-+]?\s*[$€£¥]\s*/, (m) => m.replace(/[$€£¥\s]/g, ""))
+    .replace(/\s*[$€£¥]$/, "")
+    .replace(/\s*%$/, "");
+
+  // Only strip commas used as thousands separators, e.g. 1,234,567.8
+  if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(value)) {
+    value = value.replace(/,/g, "");
+  }
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value)) return null;
+
+  const num = Number(value);
+  return negative ? -num : num;
+};
+
+export const parseBoolean = (raw: string): "true" | "false" | null => {
+  const value = raw.trim().toLowerCase();
+  if (TRUE_TOKENS.includes(value)) return "true";
+  if (FALSE_TOKENS.includes(value)) return "false";
+  return null;
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Normalizes common date formats to ISO strings (which sort correctly as text).
+ * Supports YYYY-MM-DD[ HH:MM[:SS]], MM/DD/YYYY, DD.MM.YYYY and "Jan 5, 2024"
+ */
+export const parseDate = (raw: string): string | null => {
+  const value = raw.trim();
+  let year: number, month: number, day: number;
+  let time = "";
+
+  let match = value.match(
+    /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/
+  );
+  if (match) {
+    [year, month, day] = [+match[1], +match[2], +match[3]];
+    if (match[4]) {
+      time = `T${pad(+match[4])}:${match[5]}:${match[6] || "00"}`;
+    }
+  } else if ((match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) {
+    [month, day, year] = [+match[1], +match[2], +match[3]];
+  } else if ((match = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/))) {
+    [day, month, year] = [+match[1], +match[2], +match[3]];
+  } else if (/[a-z]/i.test(value) && /\b\d{4}\b/.test(value)) {
+    const parsed = new Date(value);
+    if (isNaN(parsed.getTime())) return null;
+    [year, month, day] = [
+      parsed.getFullYear(),
+      parsed.getMonth() + 1,
+      parsed.getDate(),
+    ];
+  } else {
+    return null;
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${pad(month)}-${pad(day)}${time}`;
+};
+
+const inferColumn = (
+  rows: Record<string, string>[],
+  name: string
+): ColumnSchema => {
+  const values = rows
+    .map((row) => (row[name] ?? "").trim())
+    .filter((value) => value !== "");
+
+  if (values.length === 0) {
+    return { name, type: "text", inferred: "text", confidence: 0 };
+  }
+
+  let numbers = 0;
+  let integers = 0;
+  let booleans = 0;
+  let dates = 0;
+
+  values.forEach((value) => {
+    const num = parseNumber(value);
+    if (num !== null) {
+      numbers++;
+      if (Number.isInteger(num)) integers++;
+    }
+    if (parseBoolean(value)) booleans++;
+    if (num === null && parseDate(value)) dates++;
+  });
+
+  const total = values.length;
+  const pick = (type: ColumnType, confidence: number): ColumnSchema => ({
+    name,
+    type,
+    inferred: type,
+    confidence: Number(confidence.toFixed(2)),
+  });
+
+  if (booleans / total >= TYPE_THRESHOLD)
+    return pick("boolean", booleans / total);
+  if (numbers / total >= TYPE_THRESHOLD) {
+    return integers === numbers
+      ? pick("integer", numbers / total)
+      : pick("numeric", numbers / total);
+  }
+  if (dates / total >= TYPE_THRESHOLD) return pick("date", dates / total);
+
+  // Low-cardinality strings are categories, everything else free text
+  const distinctRatio = new Set(values).size / total;
+  return distinctRatio <= 0.5 || new Set(values).size <= 20
+    ? pick("categorical", 1 - distinctRatio)
+    : pick("text", distinctRatio);
+};
+
+/**
+ * Classifies every column from a sample of the raw string rows
+ */
+export const inferSchema = (
+  rows: Record<string, string>[],
+  columns: string[] = rows.length > 0 ? Object.keys(rows[0]) : []
+): ColumnSchema[] => {
+  const step = Math.max(1, Math.floor(rows.length / INFERENCE_SAMPLE));
+  const sample = rows.filter((_, i) => i % step === 0);
+
+  return columns.map((name) => inferColumn(sample, name));
+};
+
+export const convertValue = (
+  raw: string,
+  type: ColumnType
+): string | number => {
+  const value = (raw ?? "").trim();
+  if (value === "") return "";
+
+  switch (type) {
+    case "numeric":
+      return parseNumber(value) ?? "";
+    case "integer": {
+      const num = parseNumber(value);
+      return num === null ? "" : Math.round(num);
+    }
+    case "boolean":
+      return parseBoolean(value) ?? "";
+    case "date":
+      return parseDate(value) ?? "";
+    default:
+      return value;
+  }
+};
+
+/**
+ * Converts raw CSV strings column by column according to the schema. Values
+ * that don't fit their column type become empty (missing) instead of
+ * leaving a mix of numbers and strings in one column
+ */
+export const applySchema = (
+  rows: Record<string, string>[],
+  schema: ColumnSchema[]
+): Record<string, string | number>[] => {
+  return rows.map((row) => {
+    const convertedRow: Record<string, string | number> = {};
+    for (const column of schema) {
+      convertedRow[column.name] = convertValue(row[column.name], column.type);
+    }
+    return convertedRow;
+  });
+};
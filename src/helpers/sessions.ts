@@ -0,0 +1,199 @@
+import type { Aggregation } from "./aggregate";
+import type { ChartType } from "./charts";
+import type { DatasetInfo } from "./datasets";
+import type { FilterState } from "./filters";
+import type { SamplingStrategy } from "./functions";
+import type { DataInsights } from "./insights";
+import type { ChatMessage } from "./providers";
+
+// Chart settings of the active dataset, also what a shared view spec carries
+export type ViewSettings = {
+  selectedXAxis: string;
+  selectedKeys: string[];
+  rightAxisKeys: string[];
+  chartType: ChartType;
+  showTrendLine: boolean;
+  donut: boolean;
+  groupBy: boolean;
+  aggregation: Aggregation;
+  binWidth: number;
+  filters: FilterState;
+  samplingStrategy: SamplingStrategy;
+  pointBudget: number;
+  stratifyKey: string;
+  samplingSeed: number;
+};
+
+// Everything about the active dataset worth restoring, AI results included
+export type SessionView = ViewSettings & {
+  // Sessions saved before structured insights have no such field
+  aiInsights: DataInsights | null;
+  chatMessages: ChatMessage[];
+};
+
+export type SessionRecord = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  datasets: DatasetInfo[];
+  activeDatasetId: string;
+  view: SessionView;
+};
+
+// Source rows are stored apart from the session so listing stays cheap
+type RowsRecord = {
+  sessionId: string;
+  datasetId: string;
+  rows: Record<string, string>[];
+};
+
+const DB_NAME = "ai-mini";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const ROWS = "datasetRows";
+
+// Id of the session to reopen after a page reload
+export const LAST_SESSION_KEY = "ai-mini:lastSession";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(SESSIONS, { keyPath: "id" });
+      db.createObjectStore(ROWS, {
+        keyPath: ["sessionId", "datasetId"],
+      }).createIndex("sessionId", "sessionId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Most recently updated first
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  const db = await openDb();
+  const sessions = await requestResult<SessionRecord[]>(
+    db.transaction(SESSIONS).objectStore(SESSIONS).getAll()
+  );
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = async (
+  id: string
+): Promise<SessionRecord | undefined> => {
+  const db = await openDb();
+  return requestResult<SessionRecord | undefined>(
+    db.transaction(SESSIONS).objectStore(SESSIONS).get(id)
+  );
+};
+
+export const putSession = async (session: SessionRecord) => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, "readwrite");
+  tx.objectStore(SESSIONS).put(session);
+  await transactionDone(tx);
+};
+
+export const renameSession = async (id: string, name: string) => {
+  const session = await getSession(id);
+  if (session) await putSession({ ...session, name, updatedAt: Date.now() });
+};
+
+export const getSessionRows = async (
+  sessionId: string
+): Promise<RowsRecord[]> => {
+  const db = await openDb();
+  return requestResult<RowsRecord[]>(
+    db.transaction(ROWS).objectStore(ROWS).index("sessionId").getAll(sessionId)
+  );
+};
+
+export const putDatasetRows = async (
+  sessionId: string,
+  datasetId: string,
+  rows: Record<string, string>[]
+) => {
+  const db = await openDb();
+  const tx = db.transaction(ROWS, "readwrite");
+  tx.objectStore(ROWS).put({ sessionId, datasetId, rows });
+  await transactionDone(tx);
+};
+
+// Deletes a session's row records whose dataset id fails the check. Deletes
+// are queued from the request callback so the transaction stays active
+const deleteRows = (
+  tx: IDBTransaction,
+  sessionId: string,
+  shouldDelete: (datasetId: string) => boolean
+) => {
+  const store = tx.objectStore(ROWS);
+  const request = store.index("sessionId").getAllKeys(sessionId);
+  request.onsuccess = () => {
+    for (const key of request.result) {
+      const [, datasetId] = key as [string, string];
+      if (shouldDelete(datasetId)) store.delete(key);
+    }
+  };
+};
+
+// Drops stored rows of datasets that were closed in the session
+export const pruneDatasetRows = async (
+  sessionId: string,
+  keepIds: string[]
+) => {
+  const db = await openDb();
+  const tx = db.transaction(ROWS, "readwrite");
+  deleteRows(tx, sessionId, (datasetId) => !keepIds.includes(datasetId));
+  await transactionDone(tx);
+};
+
+export const deleteSession = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, ROWS], "readwrite");
+  tx.objectStore(SESSIONS).delete(id);
+  deleteRows(tx, id, () => true);
+  await transactionDone(tx);
+};
+
+// Copies the session and its rows under a new id
+export const duplicateSession = async (id: string, newId: string) => {
+  const session = await getSession(id);
+  if (!session) return;
+  const rows = await getSessionRows(id);
+
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, ROWS], "readwrite");
+  const now = Date.now();
+  tx.objectStore(SESSIONS).put({
+    ...session,
+    id: newId,
+    name: `${session.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  });
+  for (const record of rows) {
+    tx.objectStore(ROWS).put({ ...record, sessionId: newId });
+  }
+  await transactionDone(tx);
+};
@@ -0,0 +1,147 @@
+/**
+ * The subset of JSON Schema that providers accept in strict structured
+ * output mode: every property required, no extra properties
+ */
+export type JsonSchema = { description?: string } & (
+  | { type: "string"; enum?: string[] }
+  | { type: "number" | "integer" | "boolean" }
+  | { type: "array"; items: JsonSchema }
+  | {
+      type: "object";
+      properties: Record<string, JsonSchema>;
+      required: string[];
+      additionalProperties: false;
+    }
+);
+
+// A named schema, typed with the value it describes
+export type StructuredFormat<T> = {
+  name: string;
+  schema: JsonSchema;
+  // Never set, only carries the type
+  _type?: T;
+};
+
+// An object schema in strict form, every property required
+export const objectSchema = (
+  properties: Record<string, JsonSchema>,
+  description?: string
+): JsonSchema => ({
+  type: "object",
+  description,
+  properties,
+  required: Object.keys(properties),
+  additionalProperties: false,
+});
+
+// A string limited to `values`, or any string when there are none
+export const oneOfSchema = (
+  values: string[],
+  description?: string
+): JsonSchema =>
+  values.length > 0
+    ? { type: "string", enum: values, description }
+    : { type: "string", description };
+
+const typeOf = (value: unknown) => {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+/**
+ * Lists every place where a value breaks the schema, as "path: problem".
+ * An empty list means the value is valid
+ */
+export const validateJson = (
+  schema: JsonSchema,
+  value: unknown,
+  path: string = "reply"
+): string[] => {
+  const actual = typeOf(value);
+  const matches =
+    schema.type === actual ||
+    (schema.type === "number" && actual === "integer");
+  if (!matches) return [`${path}: expected ${schema.type}, got ${actual}`];
+
+  if (schema.type === "string" && schema.enum) {
+    return schema.enum.includes(value as string)
+      ? []
+      : [`${path}: must be one of ${schema.enum.join(", ")}`];
+  }
+  if (schema.type === "array") {
+    return (value as unknown[]).flatMap((item, i) =>
+      validateJson(schema.items, item, `${path}[${i}]`)
+    );
+  }
+  if (schema.type === "object") {
+    const record = value as Record<string, unknown>;
+    return [
+      ...schema.required
+        .filter((key) => !(key in record))
+        .map((key) => `${path}.${key}: missing`),
+      ...Object.keys(record)
+        .filter((key) => !(key in schema.properties))
+        .map((key) => `${path}.${key}: not allowed`),
+      ...Object.entries(schema.properties)
+        .filter(([key]) => key in record)
+        .flatMap(([key, property]) =>
+          validateJson(property, record[key], `${path}.${key}`)
+        ),
+    ];
+  }
+  return [];
+};
+
+/**
+ * Parses a reply and checks it against the schema. Models without
+ * structured output support sometimes wrap the JSON in prose or code
+ * fences, so only the outermost object is parsed
+ */
+export const parseStructured = <T>(
+  reply: string,
+  format: StructuredFormat<T>
+): { ok: true; value: T } | { ok: false; errors: string[] } => {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  let value: unknown;
+  try {
+    value = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return { ok: false, errors: ["the reply is not a JSON object"] };
+  }
+
+  const errors = validateJson(format.schema, value);
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: value as T };
+};
+
+/**
+ * A value matching the schema, for the offline mock provider. Strings
+ * name their property so cards in the UI show where each value lands
+ */
+export const exampleFromSchema = (
+  schema: JsonSchema,
+  label: string = "value"
+): unknown => {
+  switch (schema.type) {
+    case "string":
+      return schema.enum ? schema.enum[0] : `Example ${label}`;
+    case "number":
+    case "integer":
+      return 1;
+    case "boolean":
+      return false;
+    case "array":
+      return [exampleFromSchema(schema.items, label)];
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([key, property]) => [
+          key,
+          exampleFromSchema(property, key),
+        ])
+      );
+  }
+};
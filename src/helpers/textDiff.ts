@@ -0,0 +1,132 @@
+// A stretch both texts share, or one change that can be accepted or rejected
+export type DiffChunk =
+  | { kind: "same"; text: string }
+  | { kind: "change"; id: number; removed: string; added: string };
+
+// Above this many token pairs the middle is shown as a single replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Words, runs of whitespace and single punctuation marks
+const tokenize = (text: string) =>
+  text.match(/\s+|[\p{L}\p{N}_'’-]+|[^\s\p{L}\p{N}_'’-]/gu) ?? [];
+
+type Op = { kind: "same" | "removed" | "added"; text: string };
+
+// Longest common subsequence over the tokens, walked front to back
+const diffTokens = (a: string[], b: string[]): Op[] => {
+  const [n, m] = [a.length, b.length];
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text): Op => ({ kind: "removed", text })),
+      ...b.map((text): Op => ({ kind: "added", text })),
+    ];
+  }
+
+  // lengths[i * (m + 1) + j]: LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => lengths[i * (m + 1) + j];
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        a[i] === b[j]
+          ? at(i + 1, j + 1) + 1
+          : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const ops: Op[] = [];
+  let [i, j] = [0, 0];
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (at(i + 1, j) >= at(i, j + 1)) {
+      ops.push({ kind: "removed", text: a[i++] });
+    } else {
+      ops.push({ kind: "added", text: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ kind: "removed", text: a[i++] });
+  while (j < m) ops.push({ kind: "added", text: b[j++] });
+  return ops;
+};
+
+/**
+ * Word-level diff of a rewrite against the original. Neighbouring edits
+ * separated only by whitespace form one change, so "the quick" → "a fast"
+ * is accepted or rejected as a whole
+ */
+export const diffWords = (original: string, revised: string): DiffChunk[] => {
+  const [a, b] = [tokenize(original), tokenize(revised)];
+
+  // Shared ends are cut first, they are most of a light edit
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let [endA, endB] = [a.length, b.length];
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const ops: Op[] = [
+    ...a.slice(0, start).map((text): Op => ({ kind: "same", text })),
+    ...diffTokens(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map((text): Op => ({ kind: "same", text })),
+  ];
+
+  const chunks: DiffChunk[] = [];
+  for (const op of ops) {
+    const last = chunks[chunks.length - 1];
+    if (op.kind === "same") {
+      if (last?.kind === "same") last.text += op.text;
+      else chunks.push({ kind: "same", text: op.text });
+      continue;
+    }
+    const change =
+      last?.kind === "change"
+        ? last
+        : { kind: "change" as const, id: 0, removed: "", added: "" };
+    if (change !== last) chunks.push(change);
+    if (op.kind === "removed") change.removed += op.text;
+    else change.added += op.text;
+  }
+
+  // Whitespace between two changes joins them into one
+  const merged: DiffChunk[] = [];
+  for (let k = 0; k < chunks.length; k++) {
+    const chunk = chunks[k];
+    const previous = merged[merged.length - 1];
+    const next = chunks[k + 1];
+    if (
+      chunk.kind === "same" &&
+      !chunk.text.trim() &&
+      previous?.kind === "change" &&
+      next?.kind === "change"
+    ) {
+      previous.removed += chunk.text + next.removed;
+      previous.added += chunk.text + next.added;
+      k++;
+      continue;
+    }
+    merged.push(chunk);
+  }
+
+  let id = 0;
+  return merged.map((chunk) =>
+    chunk.kind === "change" ? { ...chunk, id: id++ } : chunk
+  );
+};
+
+// The text with every change applied except the rejected ones
+export const applyDiff = (chunks: DiffChunk[], rejected: Set<number>) =>
+  chunks
+    .map((chunk) =>
+      chunk.kind === "same"
+        ? chunk.text
+        : rejected.has(chunk.id)
+          ? chunk.removed
+          : chunk.added
+    )
+    .join("");
@@ -0,0 +1,142 @@
+import { AGGREGATIONS, type Aggregation } from "./aggregate";
+import { CHART_TYPES, type ChartType } from "./charts";
+import {
+  FILTER_OPERATORS,
+  type Combinator,
+  type FilterOperator,
+  type FilterState,
+} from "./filters";
+import { createId } from "./functions";
+import { isNumericType, type ColumnSchema } from "./schema";
+import type { ViewSettings } from "./sessions";
+import { objectSchema, oneOfSchema, type StructuredFormat } from "./structured";
+import { toViewSpec, type ViewSpec } from "./viewSpec";
+
+// A filter as the model states it, every field present as strict mode asks
+export type RequestedFilter = {
+  column: string;
+  operator: FilterOperator;
+  value: string;
+  values: string[];
+  min: string;
+  max: string;
+};
+
+// The view a "show me…" question asks for, in the model's words
+export type ViewRequest = {
+  chartType: ChartType;
+  xColumn: string;
+  yColumns: string[];
+  groupBy: boolean;
+  aggregation: Aggregation;
+  binWidth: number;
+  filterCombinator: Combinator;
+  filters: RequestedFilter[];
+  explanation: string;
+};
+
+/**
+ * The schema for a view request. Column fields only accept the dataset's
+ * own column names and Y columns only its numeric ones
+ */
+export const viewRequestFormat = (
+  schema: ColumnSchema[]
+): StructuredFormat<ViewRequest> => {
+  const columns = schema.map((c) => c.name);
+  const numeric = schema
+    .filter((c) => isNumericType(c.type))
+    .map((c) => c.name);
+
+  return {
+    name: "view_request",
+    schema: objectSchema({
+      chartType: oneOfSchema(Object.keys(CHART_TYPES)),
+      xColumn: oneOfSchema(columns, "Column for the X axis or the groups"),
+      yColumns: {
+        type: "array",
+        description: "Values to plot, one series each",
+        items: oneOfSchema(numeric),
+      },
+      groupBy: {
+        type: "boolean",
+        description:
+          "Aggregate Y per X value for bar, line and area charts, e.g. 'average … by …'",
+      },
+      aggregation: oneOfSchema(AGGREGATIONS.map((a) => a.value)),
+      binWidth: {
+        type: "number",
+        description:
+          "Width of the groups for a numeric X column, e.g. 10 for age groups; 0 for automatic",
+      },
+      filterCombinator: oneOfSchema(["and", "or"]),
+      filters: {
+        type: "array",
+        description: "Rows to keep, empty to keep every row",
+        items: objectSchema({
+          column: oneOfSchema(columns),
+          operator: oneOfSchema(FILTER_OPERATORS.map((op) => op.value)),
+          value: {
+            type: "string",
+            description: "For equals and contains, otherwise empty",
+          },
+          values: {
+            type: "array",
+            description: "For in, otherwise empty",
+            items: { type: "string" },
+          },
+          min: {
+            type: "string",
+            description: "Lower bound for range, empty for none",
+          },
+          max: {
+            type: "string",
+            description: "Upper bound for range, empty for none",
+          },
+        }),
+      },
+      explanation: {
+        type: "string",
+        description: "What the view shows, in one sentence",
+      },
+    }),
+  };
+};
+
+/**
+ * Turns a request into a full view spec. Settings the request doesn't cover
+ * (sampling, trend line, …) are kept from the current view, the filters are
+ * replaced by the requested ones in a single group
+ */
+export const viewRequestToSpec = (
+  request: ViewRequest,
+  current: ViewSettings
+): ViewSpec => {
+  const filters: FilterState =
+    request.filters.length > 0
+      ? {
+          combinator: "and",
+          groups: [
+            {
+              id: createId(),
+              combinator: request.filterCombinator,
+              conditions: request.filters.map((f) => ({
+                id: createId(),
+                ...f,
+              })),
+            },
+          ],
+        }
+      : { combinator: "and", groups: [] };
+
+  return toViewSpec({
+    ...current,
+    chartType: request.chartType,
+    selectedXAxis: request.xColumn,
+    selectedKeys: request.yColumns,
+    rightAxisKeys: [],
+    groupBy: request.groupBy,
+    aggregation: request.aggregation,
+    binWidth: Math.max(0, request.binWidth),
+    filters,
+  });
+};
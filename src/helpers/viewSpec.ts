@@ -0,0 +1,239 @@
+import { AGGREGATIONS } from "./aggregate";
+import { CHART_TYPES, acceptedXColumns, type ChartType } from "./charts";
+import { renamedColumn } from "./cleaning";
+import { FILTER_OPERATORS, type FilterState } from "./filters";
+import {
+  MAX_POINT_BUDGET,
+  MIN_POINT_BUDGET,
+  SAMPLING_STRATEGIES,
+} from "./functions";
+import { isNumericType, type ColumnSchema } from "./schema";
+import type { ViewSettings } from "./sessions";
+
+// The shareable part of a view: chart settings without the AI output
+export type ViewSpec = { version: 1 } & ViewSettings;
+
+const HASH_PREFIX = "#view=";
+
+export const toViewSpec = (settings: ViewSettings): ViewSpec => ({
+  version: 1,
+  ...settings,
+});
+
+// Base64url keeps the JSON safe inside a URL fragment
+export const encodeViewSpec = (spec: ViewSpec): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(spec));
+  // Byte by byte, spreading a long spec overflows the argument limit
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const decodeBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+};
+
+export const viewSpecHash = (spec: ViewSpec) =>
+  `${HASH_PREFIX}${encodeViewSpec(spec)}`;
+
+// Raw JSON from a "#view=" hash, or null when the hash holds no view
+export const readViewSpecHash = (hash: string): unknown => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    return JSON.parse(decodeBase64Url(hash.slice(HASH_PREFIX.length)));
+  } catch {
+    return undefined;
+  }
+};
+
+type Validation =
+  { ok: true; spec: ViewSpec } | { ok: false; errors: string[] };
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+const validFilters = (value: unknown): value is FilterState => {
+  const filters = value as FilterState;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    ["and", "or"].includes(filters.combinator) &&
+    Array.isArray(filters.groups) &&
+    filters.groups.every(
+      (g) =>
+        ["and", "or"].includes(g?.combinator) &&
+        Array.isArray(g.conditions) &&
+        g.conditions.every(
+          (c) =>
+            typeof c?.id === "string" &&
+            typeof c.column === "string" &&
+            FILTER_OPERATORS.some((op) => op.value === c.operator) &&
+            typeof c.value === "string" &&
+            isStringArray(c.values) &&
+            typeof c.min === "string" &&
+            typeof c.max === "string"
+        )
+    )
+  );
+};
+
+/**
+ * Checks the shape of an untrusted spec (from a URL or an uploaded file) and
+ * lists every problem instead of stopping at the first one
+ */
+export const validateViewSpec = (value: unknown): Validation => {
+  if (typeof value !== "object" || value === null) {
+    return { ok: false, errors: ["The view spec is not a valid JSON object."] };
+  }
+
+  const spec = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const check = (valid: boolean, message: string) => {
+    if (!valid) errors.push(message);
+  };
+
+  check(spec.version === 1, "Unsupported view spec version.");
+  check(
+    Object.keys(CHART_TYPES).includes(spec.chartType as string),
+    `Unknown chart type "${String(spec.chartType)}".`
+  );
+  check(typeof spec.selectedXAxis === "string", "X column must be a string.");
+  check(isStringArray(spec.selectedKeys), "Y columns must be a list.");
+  check(
+    isStringArray(spec.rightAxisKeys),
+    "Right axis columns must be a list."
+  );
+  check(
+    AGGREGATIONS.some((a) => a.value === spec.aggregation),
+    `Unknown aggregation "${String(spec.aggregation)}".`
+  );
+  check(
+    SAMPLING_STRATEGIES.some((s) => s.value === spec.samplingStrategy),
+    `Unknown sampling strategy "${String(spec.samplingStrategy)}".`
+  );
+  // Held to what the controls allow, the chart uses these as they are
+  const isNumber = (v: unknown): v is number =>
+    typeof v === "number" && isFinite(v);
+  check(
+    isNumber(spec.binWidth) && spec.binWidth >= 0,
+    "binWidth must be a number of at least 0."
+  );
+  check(
+    Number.isInteger(spec.pointBudget) &&
+      (spec.pointBudget as number) >= MIN_POINT_BUDGET &&
+      (spec.pointBudget as number) <= MAX_POINT_BUDGET,
+    `pointBudget must be a whole number from ${MIN_POINT_BUDGET} to ${MAX_POINT_BUDGET}.`
+  );
+  check(
+    Number.isInteger(spec.samplingSeed),
+    "samplingSeed must be a whole number."
+  );
+  for (const key of ["showTrendLine", "donut", "groupBy"]) {
+    check(typeof spec[key] === "boolean", `${key} must be true or false.`);
+  }
+  check(typeof spec.stratifyKey === "string", "stratifyKey must be a string.");
+  check(validFilters(spec.filters), "Filters are malformed.");
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, spec: value as ViewSpec };
+};
+
+/**
+ * Fits a valid spec to the loaded dataset. Columns it doesn't have are
+ * dropped (or replaced by a fallback for the X and Y axes) and reported
+ */
+export const reconcileViewSpec = (
+  spec: ViewSpec,
+  schema: ColumnSchema[]
+): { spec: ViewSpec; issues: string[] } => {
+  const issues: string[] = [];
+  const has = (name: string) => schema.some((c) => c.name === name);
+  const numeric = schema.filter((c) => isNumericType(c.type));
+
+  const chartType: ChartType = spec.chartType;
+  const xOptions = acceptedXColumns(chartType, schema);
+  let selectedXAxis = spec.selectedXAxis;
+  if (!has(selectedXAxis) && CHART_TYPES[chartType].x !== "none") {
+    selectedXAxis = xOptions[0]?.name ?? schema[0]?.name ?? "";
+    issues.push(
+      `X column "${spec.selectedXAxis}" is missing, using "${selectedXAxis}".`
+    );
+  }
+
+  const selectedKeys = spec.selectedKeys.filter((key) => {
+    const column = schema.find((c) => c.name === key);
+    if (!column) issues.push(`Y column "${key}" is missing.`);
+    else if (!isNumericType(column.type)) {
+      issues.push(`Y column "${key}" is not numeric in this dataset.`);
+    }
+    return column && isNumericType(column.type);
+  });
+  if (selectedKeys.length === 0 && numeric[0]) {
+    selectedKeys.push(numeric[0].name);
+    issues.push(`No Y column could be kept, using "${numeric[0].name}".`);
+  }
+
+  const filters: FilterState = {
+    ...spec.filters,
+    groups: spec.filters.groups
+      .map((group) => ({
+        ...group,
+        conditions: group.conditions.filter((c) => {
+          if (!has(c.column)) {
+            issues.push(`Filter on missing column "${c.column}" was removed.`);
+          }
+          return has(c.column);
+        }),
+      }))
+      .filter((group) => group.conditions.length > 0),
+  };
+
+  const stratifyKey = has(spec.stratifyKey) ? spec.stratifyKey : "";
+  if (spec.stratifyKey && !stratifyKey) {
+    issues.push(`Stratify column "${spec.stratifyKey}" is missing.`);
+  }
+
+  return {
+    spec: {
+      ...spec,
+      selectedXAxis,
+      selectedKeys,
+      rightAxisKeys: spec.rightAxisKeys.filter((k) => selectedKeys.includes(k)),
+      filters,
+      stratifyKey,
+    },
+    issues,
+  };
+};
+
+// Points the spec's columns at their new names after renames
+export const renameSpecColumns = (
+  spec: ViewSpec,
+  renames: [string, string][]
+): ViewSpec => {
+  const rename = (name: string) => renamedColumn(name, renames);
+  return {
+    ...spec,
+    selectedXAxis: rename(spec.selectedXAxis),
+    selectedKeys: spec.selectedKeys.map(rename),
+    rightAxisKeys: spec.rightAxisKeys.map(rename),
+    stratifyKey: rename(spec.stratifyKey),
+    filters: {
+      ...spec.filters,
+      groups: spec.filters.groups.map((group) => ({
+        ...group,
+        conditions: group.conditions.map((c) => ({
+          ...c,
+          column: rename(c.column),
+        })),
+      })),
+    },
+  };
+};
@@ -1,7 +1,9 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { aiProxy } from './server/plugin'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-})
+export default defineConfig(({ mode }) => ({
+  // The proxy reads server-only variables, so load every key, not just VITE_
+  plugins: [react(), aiProxy(loadEnv(mode, process.cwd(), ''))],
+}))